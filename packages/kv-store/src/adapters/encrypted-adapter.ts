@@ -0,0 +1,392 @@
+import { EncryptionKeyError, KeyValueStoreError } from "../errors";
+import { jsonSerializer, resolveSerializer } from "../serializers";
+import type {
+  AdapterBatch,
+  AdapterEntry,
+  BackupInfo,
+  BackupOptions,
+  ChangeFeedBatch,
+  EntryMetadata,
+  KeyValueAdapterWithBackup,
+  ListOptions,
+  Serializer
+} from "../types";
+import { AesGcmCipher } from "../utils/aes-gcm";
+import { applyListOptions } from "../utils/key-range";
+
+/**
+ * Returns the raw encryption key, e.g. from a secrets manager. Called on every `init()`.
+ */
+export type EncryptionKeyProvider = () => Uint8Array | Promise<Uint8Array>;
+
+export type EncryptedAdapterConfig = {
+  /**
+   * The adapter that stores the encrypted data. It must implement `all()` or `list()`.
+   */
+  adapter: KeyValueAdapterWithBackup;
+  /**
+   * A raw AES key of 16, 24 or 32 bytes (e.g. `crypto.getRandomValues(new Uint8Array(32))`),
+   * or a function returning one.
+   */
+  key: Uint8Array | EncryptionKeyProvider;
+  /**
+   * Encrypt keys as well as values. Prefix and range listings then have to
+   * decrypt every key instead of using the wrapped adapter's index. Defaults to false.
+   */
+  encryptKeys?: boolean;
+  /**
+   * How values are serialized before they are encrypted. Defaults to `jsonSerializer`.
+   */
+  serializer?: Serializer;
+};
+
+/**
+ * Reserved key holding an encrypted marker, used to detect a wrong key on `init()`.
+ * It is never encrypted itself and never listed.
+ */
+const CHECK_KEY = "__encryption__";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encrypts values (and optionally keys) with AES-GCM before handing them to
+ * another adapter, so nothing readable reaches the disk. Each value is stored
+ * as `<serializer>:<base64 of IV and ciphertext>` and is bound to its key, so
+ * encrypted values cannot be swapped between keys. Metadata (expirations,
+ * revisions) is stored unencrypted so the wrapped adapter can still use it.
+ */
+export class EncryptedAdapter implements KeyValueAdapterWithBackup {
+  private base: KeyValueAdapterWithBackup;
+  private cipher: AesGcmCipher | null = null;
+  private encryptKeys: boolean;
+  public readonly serializer: Serializer;
+
+  // Only present when the wrapped adapter supports them, since the store checks for them
+  public readonly backup?: (options?: BackupOptions) => Promise<BackupInfo | void>;
+  public readonly listBackups?: () => Promise<BackupInfo[]>;
+  public readonly verifyBackup?: (id: string) => Promise<boolean>;
+  public readonly restoreBackup?: (id: string) => Promise<void>;
+  public readonly deleteBackup?: (id: string) => Promise<void>;
+  public readonly latestChangeSeq?: () => Promise<number>;
+  public readonly readChanges?: (afterSeq: number) => Promise<ChangeFeedBatch>;
+  public readonly writeBatch?: (batch: AdapterBatch) => Promise<void>;
+
+  constructor(private config: EncryptedAdapterConfig) {
+    const base = config.adapter;
+    if (!base.all && !base.list) {
+      throw new KeyValueStoreError("EncryptedAdapter requires an adapter that implements all() or list()");
+    }
+    this.base = base;
+    this.encryptKeys = config.encryptKeys ?? false;
+    this.serializer = config.serializer ?? jsonSerializer;
+
+    if (base.backup) this.backup = (options) => base.backup!(options);
+    if (base.listBackups) this.listBackups = () => base.listBackups!();
+    if (base.verifyBackup) this.verifyBackup = (id) => base.verifyBackup!(id);
+    if (base.deleteBackup) this.deleteBackup = (id) => base.deleteBackup!(id);
+    if (base.latestChangeSeq) this.latestChangeSeq = () => base.latestChangeSeq!();
+    if (base.writeBatch) {
+      this.writeBatch = async ({ sets, deletes }) => {
+        const cipher = this.ensureInitialized();
+        await base.writeBatch!({
+          sets: await this.encryptEntries(cipher, sets),
+          deletes: await this.storedKeys(cipher, deletes),
+        });
+      };
+    }
+    if (base.readChanges) {
+      this.readChanges = async (afterSeq) => {
+        const cipher = this.ensureInitialized();
+        const batch = await base.readChanges!(afterSeq);
+        const changes = [];
+        for (const change of batch.changes) {
+          const key = change.key === CHECK_KEY ? undefined : await this.plainKey(cipher, change.key);
+          if (key !== undefined) changes.push({ ...change, key });
+        }
+        return { ...batch, changes };
+      };
+    }
+    if (base.restoreBackup) {
+      this.restoreBackup = async (id) => {
+        await base.restoreBackup!(id);
+        // The backup may predate a key rotation
+        await this.checkKey(this.ensureInitialized());
+      };
+    }
+  }
+
+  /**
+   * Initialize the wrapped adapter and check the key against the stored
+   * marker. Throws `EncryptionKeyError` if the data was encrypted with another key.
+   */
+  public async init(): Promise<void> {
+    await this.base.init();
+    const key = typeof this.config.key === "function" ? await this.config.key() : this.config.key;
+    const cipher = await AesGcmCipher.create(key);
+    await this.checkKey(cipher);
+    this.cipher = cipher;
+  }
+
+  public async close(): Promise<void> {
+    this.cipher = null;
+    await this.base.close?.();
+  }
+
+  private ensureInitialized(): AesGcmCipher {
+    if (!this.cipher) {
+      throw new Error("Encrypted adapter not initialized. Call init() first.");
+    }
+    return this.cipher;
+  }
+
+  public async get(key: string): Promise<unknown | undefined> {
+    const cipher = this.ensureInitialized();
+    const stored = await this.base.get(await this.storedKey(cipher, key));
+    return stored === undefined ? undefined : this.decryptValue(cipher, key, stored);
+  }
+
+  public async set(key: string, value: unknown, meta?: EntryMetadata): Promise<void> {
+    const cipher = this.ensureInitialized();
+    await this.base.set(await this.storedKey(cipher, key), await this.encryptValue(cipher, key, value), meta);
+  }
+
+  public async delete(key: string): Promise<void> {
+    const cipher = this.ensureInitialized();
+    await this.base.delete(await this.storedKey(cipher, key));
+  }
+
+  public async setMany(entries: AdapterEntry[]): Promise<void> {
+    const cipher = this.ensureInitialized();
+    await this.writeMany(await this.encryptEntries(cipher, entries));
+  }
+
+  public async deleteMany(keys: string[]): Promise<void> {
+    const cipher = this.ensureInitialized();
+    await this.removeMany(await this.storedKeys(cipher, keys));
+  }
+
+  public async all(): Promise<Record<string, unknown>> {
+    const cipher = this.ensureInitialized();
+    const data: Record<string, unknown> = {};
+    for (const [key, , stored] of await this.decryptedEntries(cipher)) {
+      data[key] = await this.decryptValue(cipher, key, stored);
+    }
+    return data;
+  }
+
+  /**
+   * List entries in key order. Without `encryptKeys` the wrapped adapter's
+   * `list()` serves the bounds; otherwise every key is decrypted and filtered here.
+   */
+  public async list(options: ListOptions = {}): Promise<Array<[string, unknown]>> {
+    const cipher = this.ensureInitialized();
+    let listed: Array<[string, unknown]>;
+    if (!this.encryptKeys && this.base.list) {
+      // Ask for one more, in case the marker is among them
+      const limit = options.limit === undefined ? undefined : options.limit + 1;
+      listed = (await this.base.list({ ...options, limit }))
+        .filter(([key]) => key !== CHECK_KEY)
+        .slice(0, options.limit);
+    } else {
+      const entries = await this.decryptedEntries(cipher);
+      listed = applyListOptions(entries.map(([key, , stored]) => [key, stored] as [string, unknown]), options);
+    }
+
+    const result: Array<[string, unknown]> = [];
+    for (const [key, stored] of listed) {
+      result.push([key, await this.decryptValue(cipher, key, stored)]);
+    }
+    return result;
+  }
+
+  public async allMetadata(): Promise<Record<string, EntryMetadata>> {
+    const cipher = this.ensureInitialized();
+    const stored = (await this.base.allMetadata?.()) ?? {};
+    const result: Record<string, EntryMetadata> = {};
+    for (const [storedKey, meta] of Object.entries(stored)) {
+      if (storedKey === CHECK_KEY) continue;
+      const key = await this.plainKey(cipher, storedKey);
+      if (key !== undefined) result[key] = meta;
+    }
+    return result;
+  }
+
+  public async getMetadata(key: string): Promise<EntryMetadata | undefined> {
+    const cipher = this.ensureInitialized();
+    return this.base.getMetadata?.(await this.storedKey(cipher, key));
+  }
+
+  /**
+   * Re-encrypt every entry with `newKey` and use it from now on. The rewrite is
+   * atomic if the wrapped adapter's `setMany()` is. With `encryptKeys`, entries
+   * are stored under new names and the old ones deleted afterwards. Call it
+   * while nothing else writes to the adapter, and supply `newKey` on later `init()`s.
+   */
+  public async rotateKey(newKey: Uint8Array): Promise<void> {
+    const current = this.ensureInitialized();
+    const next = await AesGcmCipher.create(newKey);
+    const metadata = (await this.base.allMetadata?.()) ?? {};
+    const rotated: AdapterEntry[] = [];
+    const stale: string[] = [];
+
+    for (const [key, storedKey, stored] of await this.decryptedEntries(current)) {
+      const { serializer, plaintext } = await this.decryptRecord(current, key, stored);
+      const nextKey = await this.storedKey(next, key);
+      rotated.push({ key: nextKey, value: `${serializer}:${await next.encrypt(plaintext, key)}`, meta: metadata[storedKey] });
+      if (nextKey !== storedKey) stale.push(storedKey);
+    }
+    rotated.push({ key: CHECK_KEY, value: await this.checkValue(next) });
+
+    await this.writeMany(rotated);
+    if (stale.length > 0) {
+      await this.removeMany(stale);
+    }
+    this.cipher = next;
+  }
+
+  /**
+   * Compare `cipher` against the stored marker, writing the marker if the
+   * adapter is still empty.
+   */
+  private async checkKey(cipher: AesGcmCipher): Promise<void> {
+    const marker = await this.base.get(CHECK_KEY);
+    if (marker === undefined) {
+      if ((await this.storedEntries()).length > 0) {
+        throw new KeyValueStoreError("The adapter already holds unencrypted data");
+      }
+      await this.base.set(CHECK_KEY, await this.checkValue(cipher));
+      return;
+    }
+
+    let settings: { encryptKeys: boolean };
+    try {
+      settings = JSON.parse(decoder.decode(await cipher.decrypt(marker as string, CHECK_KEY)));
+    } catch {
+      throw new EncryptionKeyError();
+    }
+    if (settings.encryptKeys !== this.encryptKeys) {
+      throw new KeyValueStoreError(
+        `The stored data was written with encryptKeys: ${settings.encryptKeys}, but the adapter uses ${this.encryptKeys}`
+      );
+    }
+  }
+
+  private async checkValue(cipher: AesGcmCipher): Promise<string> {
+    return cipher.encrypt(encoder.encode(JSON.stringify({ encryptKeys: this.encryptKeys })), CHECK_KEY);
+  }
+
+  private async storedKey(cipher: AesGcmCipher, key: string): Promise<string> {
+    if (this.encryptKeys) return cipher.encryptName(key);
+    if (key === CHECK_KEY) {
+      throw new KeyValueStoreError(`The key "${CHECK_KEY}" is reserved by EncryptedAdapter`);
+    }
+    return key;
+  }
+
+  /**
+   * The plain key for a stored one, or undefined for names that do not decrypt.
+   * Once `init()` has checked the key, those can only be leftovers of an
+   * interrupted `rotateKey()`.
+   */
+  private async plainKey(cipher: AesGcmCipher, storedKey: string): Promise<string | undefined> {
+    if (!this.encryptKeys) return storedKey;
+    try {
+      return await cipher.decryptName(storedKey);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Every stored entry except the marker, as it is in the wrapped adapter.
+   */
+  private async storedEntries(): Promise<Array<[string, unknown]>> {
+    const entries = this.base.all ? Object.entries(await this.base.all()) : await this.base.list!();
+    return entries.filter(([key]) => key !== CHECK_KEY);
+  }
+
+  /**
+   * Every stored entry as [plain key, stored key, encrypted value].
+   */
+  private async decryptedEntries(cipher: AesGcmCipher): Promise<Array<[string, string, unknown]>> {
+    const result: Array<[string, string, unknown]> = [];
+    for (const [storedKey, stored] of await this.storedEntries()) {
+      const key = await this.plainKey(cipher, storedKey);
+      if (key !== undefined) result.push([key, storedKey, stored]);
+    }
+    return result;
+  }
+
+  private async encryptValue(cipher: AesGcmCipher, key: string, value: unknown): Promise<string> {
+    const data = this.serializer.serialize(value);
+    const ciphertext = await cipher.encrypt(typeof data === "string" ? encoder.encode(data) : data, key);
+    return `${this.serializer.name}:${ciphertext}`;
+  }
+
+  private async decryptValue(cipher: AesGcmCipher, key: string, stored: unknown): Promise<unknown> {
+    const { serializer: name, plaintext } = await this.decryptRecord(cipher, key, stored);
+    const serializer = resolveSerializer(name, this.serializer);
+    return serializer.deserialize(serializer.format === "binary" ? plaintext : decoder.decode(plaintext));
+  }
+
+  private async decryptRecord(
+    cipher: AesGcmCipher,
+    key: string,
+    stored: unknown
+  ): Promise<{ serializer: string; plaintext: Uint8Array }> {
+    const separator = typeof stored === "string" ? stored.lastIndexOf(":") : -1;
+    if (separator < 0) {
+      throw new KeyValueStoreError(`The value of "${key}" is not encrypted`);
+    }
+    const record = stored as string;
+    try {
+      return {
+        serializer: record.slice(0, separator),
+        plaintext: await cipher.decrypt(record.slice(separator + 1), key),
+      };
+    } catch {
+      throw new KeyValueStoreError(`The value of "${key}" could not be decrypted`);
+    }
+  }
+
+  private async encryptEntries(cipher: AesGcmCipher, entries: AdapterEntry[]): Promise<AdapterEntry[]> {
+    const encrypted: AdapterEntry[] = [];
+    for (const { key, value, meta } of entries) {
+      encrypted.push({
+        key: await this.storedKey(cipher, key),
+        value: await this.encryptValue(cipher, key, value),
+        meta,
+      });
+    }
+    return encrypted;
+  }
+
+  private async storedKeys(cipher: AesGcmCipher, keys: string[]): Promise<string[]> {
+    const storedKeys: string[] = [];
+    for (const key of keys) {
+      storedKeys.push(await this.storedKey(cipher, key));
+    }
+    return storedKeys;
+  }
+
+  private async writeMany(entries: AdapterEntry[]): Promise<void> {
+    if (this.base.setMany) {
+      await this.base.setMany(entries);
+      return;
+    }
+    for (const { key, value, meta } of entries) {
+      await this.base.set(key, value, meta);
+    }
+  }
+
+  private async removeMany(keys: string[]): Promise<void> {
+    if (this.base.deleteMany) {
+      await this.base.deleteMany(keys);
+      return;
+    }
+    for (const key of keys) {
+      await this.base.delete(key);
+    }
+  }
+}
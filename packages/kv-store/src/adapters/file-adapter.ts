@@ -1,69 +1,361 @@
-import type { KeyValueAdapterWithBackup } from "../types";
+import { rename, unlink } from "node:fs/promises";
+import { KeyValueStoreError, StoreCorruptedError } from "../errors";
+import { jsonSerializer } from "../serializers";
+import type {
+  AdapterBatch,
+  AdapterEntry,
+  BackupInfo,
+  BackupOptions,
+  CompressionOptions,
+  EntryMetadata,
+  KeyValueAdapterWithBackup,
+  ListOptions,
+  Serializer
+} from "../types";
+import { FileBackups } from "../utils/backup-files";
+import { acquireFileLock, releaseFileLock } from "../utils/file-lock";
+import { applyListOptions } from "../utils/key-range";
+import { assertDocumentKey, entryMetadata, METADATA_KEY, type StoredMetadata, ValueCodec } from "../utils/value-codec";
 
 export type FileAdapterConfig = {
   filePath: string;
+  /**
+   * If the file cannot be parsed, load the newest readable `.backup` instead of
+   * throwing `StoreCorruptedError`. Defaults to false.
+   */
+  recoverFromBackup?: boolean;
+  /**
+   * Hold an advisory `${filePath}.lock` file while the adapter is open, so other
+   * processes cannot open the same file. Defaults to true.
+   */
+  lock?: boolean;
+  /**
+   * How values are stored. Defaults to `jsonSerializer`, which keeps them as
+   * plain JSON in the file; other serializers store an encoded string.
+   */
+  serializer?: Serializer;
+  /**
+   * Compress values larger than a threshold. Compressed values are stored as
+   * base64 and flagged in `__meta__`; off by default.
+   */
+  compression?: CompressionOptions;
 };
 
 /**
  * A minimal file adapter that stores key/value pairs in a JSON file.
+ * Per-entry metadata (expirations, revisions, encodings, compression) is kept under a
+ * reserved `__meta__` key, so files written by older versions remain readable.
+ * Writes go to a temporary file that is renamed over the original, so a crash
+ * never leaves a half-written file behind.
  * For better performance, consider using streaming or chunk-based approaches.
  */
 export class FileAdapter implements KeyValueAdapterWithBackup {
   private filePath: string;
   private cache: Record<string, unknown> = {};
+  private meta: Record<string, StoredMetadata> = {};
+  private lockPath?: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private tempCounter = 0;
+  private backups: FileBackups;
+  private codec: ValueCodec;
+  public readonly serializer: Serializer;
 
-  constructor(config: FileAdapterConfig) {
+  constructor(private config: FileAdapterConfig) {
     this.filePath = config.filePath;
+    this.backups = new FileBackups(config.filePath);
+    this.serializer = config.serializer ?? jsonSerializer;
+    this.codec = new ValueCodec(this.serializer, config.compression);
   }
 
   public async init(): Promise<void> {
-    // Load or create file
+    if (this.config.lock !== false && !this.lockPath) {
+      this.lockPath = await acquireFileLock(this.filePath);
+    }
+
     try {
-      const fileData = await Bun.file(this.filePath).text();
-      this.cache = JSON.parse(fileData);
-      if (typeof this.cache !== "object" || this.cache === null) {
-        this.cache = {};
-      }
-    } catch {
-      // If file doesn't exist or is invalid, create a new file
-      this.cache = {};
-      await this.writeFile();
+      await this.load();
+    } catch (err) {
+      await this.close();
+      throw err;
     }
   }
 
   public async get(key: string): Promise<unknown | undefined> {
-    return this.cache[key];
+    if (this.isExpired(key) || !(key in this.cache)) return undefined;
+    return this.decode(key);
   }
 
-  public async set(key: string, value: unknown): Promise<void> {
-    this.cache[key] = value;
+  public async set(key: string, value: unknown, meta?: EntryMetadata): Promise<void> {
+    assertDocumentKey(key);
+    this.applySet(key, value, meta);
     await this.writeFile();
   }
 
   public async delete(key: string): Promise<void> {
-    delete this.cache[key];
+    this.applyDelete(key);
+    await this.writeFile();
+  }
+
+  /**
+   * Store several entries with a single file write.
+   */
+  public async setMany(entries: AdapterEntry[]): Promise<void> {
+    entries.forEach(({ key }) => assertDocumentKey(key));
+    for (const { key, value, meta } of entries) {
+      this.applySet(key, value, meta);
+    }
+    await this.writeFile();
+  }
+
+  /**
+   * Delete several keys with a single file write.
+   */
+  public async deleteMany(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.applyDelete(key);
+    }
+    await this.writeFile();
+  }
+
+  /**
+   * Store and delete entries with a single file write.
+   */
+  public async writeBatch({ sets, deletes }: AdapterBatch): Promise<void> {
+    sets.forEach(({ key }) => assertDocumentKey(key));
+    for (const { key, value, meta } of sets) {
+      this.applySet(key, value, meta);
+    }
+    for (const key of deletes) {
+      this.applyDelete(key);
+    }
     await this.writeFile();
   }
 
   /**
-   * Get all key/value pairs from the file.
+   * Get all key/value pairs from the file, skipping expired entries.
    */
   public async all(): Promise<Record<string, unknown>> {
-    return { ...this.cache };
+    const now = Date.now();
+    const data: Record<string, unknown> = {};
+    for (const key of Object.keys(this.cache)) {
+      if (!this.isExpired(key, now)) {
+        data[key] = this.decode(key);
+      }
+    }
+    return data;
   }
 
   /**
-   * Backup by copying the file to a new file with a timestamp suffix.
+   * List entries in key order, optionally restricted to a prefix or range.
    */
-  public async backup(): Promise<void> {
+  public async list(options?: ListOptions): Promise<Array<[string, unknown]>> {
+    return applyListOptions(Object.entries(await this.all()), options);
+  }
+
+  /**
+   * Get the metadata of every entry that has any.
+   */
+  public async allMetadata(): Promise<Record<string, EntryMetadata>> {
+    const result: Record<string, EntryMetadata> = {};
+    for (const [key, stored] of Object.entries(this.meta)) {
+      const meta = entryMetadata(stored);
+      if (meta) result[key] = meta;
+    }
+    return result;
+  }
+
+  public async getMetadata(key: string): Promise<EntryMetadata | undefined> {
+    return entryMetadata(this.meta[key]);
+  }
+
+  /**
+   * Release the lock file. The adapter should not be used afterwards.
+   */
+  public async close(): Promise<void> {
+    if (this.lockPath) {
+      const lockPath = this.lockPath;
+      this.lockPath = undefined;
+      await this.writeQueue;
+      await releaseFileLock(lockPath);
+    }
+  }
+
+  /**
+   * Backup by copying the file to a new file with a timestamp suffix (or to `options.path`).
+   */
+  public async backup(options?: BackupOptions): Promise<BackupInfo> {
     await this.writeFile(); // ensure latest is saved
-    const timestamp = Date.now();
-    const backupFile = `${this.filePath}.${timestamp}.backup`;
-    // Simply copy the JSON file
-    await Bun.write(backupFile, await Bun.file(this.filePath).arrayBuffer());
+    return options?.path ? this.backups.createAt(options.path) : this.backups.create();
+  }
+
+  /**
+   * List backups of this file, newest first.
+   */
+  public async listBackups(): Promise<BackupInfo[]> {
+    return this.backups.list();
   }
 
-  private async writeFile(): Promise<void> {
-    await Bun.write(this.filePath, JSON.stringify(this.cache, null, 2));
+  public async verifyBackup(id: string): Promise<boolean> {
+    return this.backups.verify(id);
+  }
+
+  /**
+   * Replace the file with the contents of a backup and reload it.
+   */
+  public async restoreBackup(id: string): Promise<void> {
+    const backupPath = this.backups.pathFor(id);
+    if (!(await Bun.file(backupPath).exists())) {
+      throw new KeyValueStoreError(`Backup "${id}" does not exist`);
+    }
+
+    const parsed = parseStoreFile(await Bun.file(backupPath).text());
+    if (typeof parsed === "string") {
+      throw new StoreCorruptedError(backupPath, parsed);
+    }
+    this.setContents(parsed);
+    await this.writeFile();
+  }
+
+  public async deleteBackup(id: string): Promise<void> {
+    await this.backups.remove(id);
+  }
+
+  /**
+   * Read the file into the cache. A missing or empty file is an empty store; an
+   * unparseable one is never overwritten.
+   */
+  private async load(): Promise<void> {
+    const file = Bun.file(this.filePath);
+    if (!(await file.exists())) {
+      this.setContents({});
+      await this.writeFile();
+      return;
+    }
+
+    const parsed = parseStoreFile(await file.text());
+    if (typeof parsed !== "string") {
+      this.setContents(parsed);
+      return;
+    }
+
+    if (!this.config.recoverFromBackup) {
+      throw new StoreCorruptedError(this.filePath, parsed);
+    }
+    const recovered = await this.loadNewestBackup();
+    if (!recovered) {
+      throw new StoreCorruptedError(this.filePath, `${parsed} (no readable backup found)`);
+    }
+
+    console.warn(`Store file "${this.filePath}" is corrupted (${parsed}); recovered from "${recovered.path}"`);
+    this.setContents(recovered.data);
+    await this.writeFile();
+  }
+
+  /**
+   * Find the newest `.backup` of this file that parses, trying older ones if needed.
+   */
+  private async loadNewestBackup(): Promise<{ path: string; data: Record<string, unknown> } | undefined> {
+    for (const { path } of await this.backups.list()) {
+      const parsed = parseStoreFile(await Bun.file(path).text());
+      if (typeof parsed !== "string") {
+        return { path, data: parsed };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replace the cache with parsed file contents, splitting off the metadata
+   * and dropping entries that expired while the file was closed.
+   */
+  private setContents(data: Record<string, unknown>): void {
+    const { [METADATA_KEY]: storedMeta, ...entries } = data;
+    this.cache = entries;
+    this.meta = typeof storedMeta === "object" && storedMeta !== null
+      ? (storedMeta as Record<string, StoredMetadata>)
+      : {};
+
+    const now = Date.now();
+    for (const key of Object.keys(this.meta)) {
+      if (this.isExpired(key, now)) {
+        delete this.cache[key];
+        delete this.meta[key];
+      }
+    }
+  }
+
+  private applySet(key: string, value: unknown, meta?: EntryMetadata): void {
+    const { value: storedValue, encoding, compression } = this.codec.toDocument(value);
+    this.cache[key] = storedValue;
+
+    // Only keep the fields that are set, so the file stays compact
+    const stored: StoredMetadata = { ...entryMetadata(meta) };
+    if (encoding !== undefined) stored.encoding = encoding;
+    if (compression !== undefined) stored.compression = compression;
+
+    if (Object.keys(stored).length > 0) {
+      this.meta[key] = stored;
+    } else {
+      delete this.meta[key];
+    }
+  }
+
+  private applyDelete(key: string): void {
+    delete this.cache[key];
+    delete this.meta[key];
+  }
+
+  private decode(key: string): unknown {
+    const stored = this.meta[key];
+    return this.codec.fromDocument(this.cache[key], stored?.encoding, stored?.compression);
+  }
+
+  private isExpired(key: string, now: number = Date.now()): boolean {
+    const expiresAt = this.meta[key]?.expiresAt;
+    return expiresAt !== undefined && expiresAt <= now;
+  }
+
+  /**
+   * Write the cache to a temporary file and rename it over the store file.
+   * Writes are queued so an older snapshot can never replace a newer one.
+   */
+  private writeFile(): Promise<void> {
+    const data: Record<string, unknown> = { ...this.cache };
+    if (Object.keys(this.meta).length > 0) {
+      data[METADATA_KEY] = this.meta;
+    }
+    const contents = JSON.stringify(data, null, 2);
+    const tempPath = `${this.filePath}.${process.pid}.${this.tempCounter++}.tmp`;
+
+    const result = this.writeQueue.then(async () => {
+      try {
+        await Bun.write(tempPath, contents);
+        await rename(tempPath, this.filePath);
+      } catch (err) {
+        await unlink(tempPath).catch(() => {});
+        throw err;
+      }
+    });
+    this.writeQueue = result.catch(() => {});
+    return result;
+  }
+}
+
+/**
+ * Parse the contents of a store file. Returns the entries, or a description of
+ * what is wrong with them. Empty contents are an empty store.
+ */
+function parseStoreFile(text: string): Record<string, unknown> | string {
+  if (text.trim() === "") return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return `invalid JSON (${(err as Error).message})`;
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return "expected a JSON object";
   }
-} 
\ No newline at end of file
+  return data as Record<string, unknown>;
+}
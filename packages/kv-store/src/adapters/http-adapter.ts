@@ -0,0 +1,617 @@
+import { KeyValueStoreError, RevisionConflictError, ServerUnavailableError } from "../errors";
+import type { KvBatchRequest, KvBatchResponse, KvHttpEntry } from "../http-handler";
+import { jsonSerializer } from "../serializers";
+import type {
+  AdapterBatch,
+  AdapterEntry,
+  BackupInfo,
+  BackupOptions,
+  EntryMetadata,
+  KeyValueAdapterWithBackup,
+  ListOptions,
+  Serializer
+} from "../types";
+import { applyListOptions } from "../utils/key-range";
+
+export type HttpAdapterConfig = {
+  /**
+   * The server's API root, i.e. its `basePath` (e.g. "https://kv.example.com/kv").
+   */
+  url: string;
+  authToken?: string; // sent as `Authorization: Bearer <token>`
+  /**
+   * Identifies this client's store on the server (letters, digits, ".", "_"
+   * and "-"). With it, the store's own keys (`__version__`,
+   * `__schema_version__`) are kept on the server under this id; without it
+   * they only live in the adapter's memory. Clients sharing a server need
+   * different ids.
+   */
+  clientId?: string;
+  timeoutMs?: number; // per attempt; default 10000
+  retries?: number; // retries after network errors, timeouts, 429 and 5xx; default 3
+  retryDelayMs?: number; // delay before the first retry, doubled for each further one; default 100
+  batchDelayMs?: number; // how long reads and writes are collected into one request; default 0 (same tick)
+  maxBatchSize?: number; // keys per batch request; a single setMany()/deleteMany() is never split; default 100
+  /**
+   * Queue writes in memory while the server is unavailable and replay them
+   * once it is back. Off by default: writes fail with `ServerUnavailableError`.
+   */
+  offlineQueue?: boolean | HttpOfflineQueueOptions;
+};
+
+export type HttpOfflineQueueOptions = {
+  /**
+   * How often to try replaying queued writes. Defaults to 1000ms.
+   */
+  replayIntervalMs?: number;
+  /**
+   * Keys the queue holds at most; further writes fail. Defaults to 10000.
+   */
+  maxEntries?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 100;
+const DEFAULT_BATCH_DELAY_MS = 0;
+const DEFAULT_MAX_BATCH_SIZE = 100;
+const DEFAULT_REPLAY_INTERVAL_MS = 1000;
+const DEFAULT_MAX_QUEUED = 10_000;
+
+/**
+ * Keys starting with this are reserved by the server. The store's own entries
+ * (`__version__`, `__schema_version__`) are kept in the adapter's memory for
+ * reads and, with a `clientId`, sent in a batch's `internal` field.
+ */
+const RESERVED_KEY_PREFIX = "__";
+
+const CLIENT_ID_PATTERN = /^[\w.-]+$/;
+
+/**
+ * A write for the server. `revision` is the revision the key must still have there.
+ */
+type Write = { type: "set"; value: unknown; expiresAt?: number; revision?: number } | { type: "delete" };
+
+/**
+ * Body of an error response. Revision conflicts name the key and both revisions.
+ */
+type ErrorBody = { error?: string; key?: string; expectedRevision?: number; actualRevision?: number };
+
+type Deferred<T> = { resolve: (value: T) => void; reject: (err: unknown) => void };
+
+/**
+ * Reads and writes collected for the next batch request.
+ */
+type PendingBatch = {
+  writes: Map<string, Write>;
+  writers: Array<Deferred<void>>;
+  reads: Map<string, Array<Deferred<KvHttpEntry | undefined>>>;
+};
+
+/**
+ * Stores data on a remote server serving `createKvHttpHandler()`, so several
+ * processes (e.g. edge workers) can share one store. Reads and writes made in
+ * the same tick are sent as one batch request; failed requests are retried
+ * with exponential backoff. With `offlineQueue`, writes made while the server
+ * is unavailable are kept in memory and replayed in order once it is back.
+ * If the server rejects a replayed write, the next write fails with its error.
+ *
+ * Writes carrying a revision (as `KeyValueStore` sends them) only succeed if
+ * the key still has the revision this adapter last saw on the server, so a
+ * concurrent write by another client fails with `RevisionConflictError`.
+ *
+ * Values travel as JSON. Backups are created, verified and restored by the
+ * server, which must be started with the `backups` option.
+ */
+export class HttpAdapter implements KeyValueAdapterWithBackup {
+  public readonly serializer: Serializer = jsonSerializer;
+  private url: string;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+  private batchDelayMs: number;
+  private maxBatchSize: number;
+  private queueOptions?: Required<HttpOfflineQueueOptions>;
+  private local: Map<string, unknown> = new Map(); // the store's reserved keys, as last read or written
+  private revisions: Map<string, number> = new Map(); // revision of each existing key on the server, as last seen
+  private pending?: PendingBatch;
+  private pendingTimer?: ReturnType<typeof setTimeout>;
+  private queued: Map<string, Write> = new Map(); // writes waiting for the server to come back
+  private rejected: unknown[] = []; // why the server rejected replayed writes, reported by the next writes
+  private replayInterval?: ReturnType<typeof setInterval>;
+  private replaying?: Promise<void>;
+  private initialized = false;
+
+  constructor(private config: HttpAdapterConfig) {
+    try {
+      this.url = new URL(config.url).href.replace(/\/+$/, "");
+    } catch {
+      throw new KeyValueStoreError(`Invalid KV server URL "${config.url}"`);
+    }
+    this.timeoutMs = nonNegative(config.timeoutMs, DEFAULT_TIMEOUT_MS, "timeoutMs");
+    this.retries = nonNegative(config.retries, DEFAULT_RETRIES, "retries");
+    this.retryDelayMs = nonNegative(config.retryDelayMs, DEFAULT_RETRY_DELAY_MS, "retryDelayMs");
+    this.batchDelayMs = nonNegative(config.batchDelayMs, DEFAULT_BATCH_DELAY_MS, "batchDelayMs");
+    this.maxBatchSize = Math.max(1, nonNegative(config.maxBatchSize, DEFAULT_MAX_BATCH_SIZE, "maxBatchSize"));
+    if (config.clientId !== undefined && !CLIENT_ID_PATTERN.test(config.clientId)) {
+      throw new KeyValueStoreError(`Invalid clientId "${config.clientId}"`);
+    }
+    if (config.offlineQueue) {
+      const options = config.offlineQueue === true ? {} : config.offlineQueue;
+      this.queueOptions = {
+        replayIntervalMs: nonNegative(options.replayIntervalMs, DEFAULT_REPLAY_INTERVAL_MS, "offlineQueue.replayIntervalMs"),
+        maxEntries: nonNegative(options.maxEntries, DEFAULT_MAX_QUEUED, "offlineQueue.maxEntries"),
+      };
+    }
+  }
+
+  /**
+   * Check that the server is reachable and accepts the auth token. With a
+   * `clientId`, read the store's reserved keys kept on the server.
+   */
+  public async init(): Promise<void> {
+    const { clientId } = this.config;
+    if (clientId === undefined) {
+      await this.send("GET", "?limit=0");
+    } else {
+      const path = `/__internal?client=${encodeURIComponent(clientId)}`;
+      const { internal } = (await this.send("GET", path)) as { internal: Record<string, unknown> };
+      this.local = new Map(Object.entries(internal));
+    }
+    this.initialized = true;
+  }
+
+  /**
+   * Send pending requests and replay queued writes. If writes are still
+   * queued after that, reject with `ServerUnavailableError` and stay open, so
+   * they keep being replayed and closing can be retried.
+   */
+  public async close(): Promise<void> {
+    await this.flush();
+    if (this.queued.size > 0) await this.replay();
+    if (this.queued.size > 0) {
+      throw new ServerUnavailableError(this.url, `${this.queued.size} queued writes have not been sent`);
+    }
+    this.stopReplaying();
+    this.initialized = false;
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error("HTTP adapter not initialized. Call init() first.");
+    }
+  }
+
+  /**
+   * Number of writes waiting in the offline queue for the server to come back.
+   */
+  public queuedWrites(): number {
+    return this.queued.size;
+  }
+
+  public async get(key: string): Promise<unknown | undefined> {
+    if (key.startsWith(RESERVED_KEY_PREFIX)) return this.local.get(key);
+    return (await this.read(key))?.value;
+  }
+
+  public async getMetadata(key: string): Promise<EntryMetadata | undefined> {
+    if (key.startsWith(RESERVED_KEY_PREFIX)) return undefined;
+    const entry = await this.read(key);
+    return entry ? entryMetadata(entry) : undefined;
+  }
+
+  public async set(key: string, value: unknown, meta?: EntryMetadata): Promise<void> {
+    await this.write([[key, this.setWrite(key, value, meta)]]);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.write([[key, { type: "delete" }]]);
+  }
+
+  public async setMany(entries: AdapterEntry[]): Promise<void> {
+    await this.write(entries.map(({ key, value, meta }) => [key, this.setWrite(key, value, meta)]));
+  }
+
+  public async deleteMany(keys: string[]): Promise<void> {
+    await this.write(keys.map((key) => [key, { type: "delete" }]));
+  }
+
+  /**
+   * Store and delete entries with a single batch request.
+   */
+  public async writeBatch({ sets, deletes }: AdapterBatch): Promise<void> {
+    await this.write([
+      ...sets.map(({ key, value, meta }): [string, Write] => [key, this.setWrite(key, value, meta)]),
+      ...deletes.map((key): [string, Write] => [key, { type: "delete" }]),
+    ]);
+  }
+
+  public async all(): Promise<Record<string, unknown>> {
+    const data: Record<string, unknown> = Object.fromEntries(this.local);
+    for (const entry of await this.listEntries({})) {
+      data[entry.key] = entry.value;
+    }
+    return data;
+  }
+
+  public async list(options: ListOptions = {}): Promise<Array<[string, unknown]>> {
+    const listed = (await this.listEntries(options)).map((entry): [string, unknown] => [entry.key, entry.value]);
+    // Reserved keys sort before most keys, so merge them in and apply the options again
+    return applyListOptions([...this.local, ...listed], options);
+  }
+
+  public async allMetadata(): Promise<Record<string, EntryMetadata>> {
+    const metadata: Record<string, EntryMetadata> = {};
+    for (const entry of await this.listEntries({})) {
+      const meta = entryMetadata(entry);
+      if (meta) metadata[entry.key] = meta;
+    }
+    return metadata;
+  }
+
+  /**
+   * Ask the server to back up its store. Backups live on the server, so `options.path` is not supported.
+   */
+  public async backup(options?: BackupOptions): Promise<BackupInfo> {
+    if (options?.path) {
+      throw new KeyValueStoreError("HttpAdapter backups are stored by the server and cannot be written to a path");
+    }
+    return (await this.send("POST", "/__backups")) as BackupInfo;
+  }
+
+  public async listBackups(): Promise<BackupInfo[]> {
+    return ((await this.send("GET", "/__backups")) as { backups: BackupInfo[] }).backups;
+  }
+
+  public async verifyBackup(id: string): Promise<boolean> {
+    return ((await this.send("POST", `/__backups/${encodeURIComponent(id)}/verify`)) as { valid: boolean }).valid;
+  }
+
+  /**
+   * Restore a backup on the server. Queued writes are discarded, since they
+   * were made against the data the backup replaces.
+   */
+  public async restoreBackup(id: string): Promise<void> {
+    this.queued.clear();
+    this.rejected = [];
+    this.revisions.clear();
+    this.stopReplaying();
+    // KeyValueStore.restoreBackup() has already verified the backup if asked to
+    await this.send("POST", `/__backups/${encodeURIComponent(id)}/restore`, { verify: false });
+  }
+
+  /**
+   * A set for the server. With a revision in `meta`, the write is conditional:
+   * a new key (revision 1) must not exist yet, any other key must still have
+   * the revision last seen on the server. Keys never seen are written unconditionally.
+   */
+  private setWrite(key: string, value: unknown, meta?: EntryMetadata): Write {
+    const write: Write = { type: "set", value, expiresAt: meta?.expiresAt };
+    if (meta?.revision !== undefined && !key.startsWith(RESERVED_KEY_PREFIX)) {
+      write.revision = meta.revision === 1 ? 0 : this.revisions.get(key);
+    }
+    return write;
+  }
+
+  /**
+   * Read one key through the next batch, or from the offline queue if a write to it is waiting there.
+   */
+  private read(key: string): Promise<KvHttpEntry | undefined> {
+    this.ensureInitialized();
+    const queued = this.queued.get(key);
+    if (queued) return Promise.resolve(queuedEntry(key, queued));
+
+    return new Promise((resolve, reject) => {
+      const batch = this.batchFor(this.pending?.reads.has(key) ? 0 : 1);
+      const readers = batch.reads.get(key) ?? [];
+      readers.push({ resolve, reject });
+      batch.reads.set(key, readers);
+    });
+  }
+
+  /**
+   * Send writes with the next batch. While writes are queued offline, new
+   * ones are queued behind them so they reach the server in order. If a
+   * replayed write was rejected, fail with its error instead and send nothing,
+   * so the store learns that its copy of the key is not what the server has.
+   */
+  private write(writes: Array<[string, Write]>): Promise<void> {
+    this.ensureInitialized();
+    if (this.rejected.length > 0) return Promise.reject(this.rejected.shift());
+    for (const [key, write] of writes) {
+      if (!key.startsWith(RESERVED_KEY_PREFIX)) continue;
+      if (write.type === "set") this.local.set(key, write.value);
+      else this.local.delete(key);
+    }
+    if (this.config.clientId === undefined) {
+      writes = writes.filter(([key]) => !key.startsWith(RESERVED_KEY_PREFIX));
+      if (writes.length === 0) return Promise.resolve();
+    }
+    if (this.queued.size > 0) {
+      this.enqueue(writes);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const batch = this.batchFor(writes.length);
+      for (const [key, write] of writes) {
+        // Keys are unique within a batch; the last write to a key wins
+        batch.writes.delete(key);
+        batch.writes.set(key, write);
+      }
+      batch.writers.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * The batch to add `size` keys to. A full batch is sent first and a new one started.
+   */
+  private batchFor(size: number): PendingBatch {
+    const pending = this.pending;
+    if (pending && pending.writes.size + pending.reads.size + size > this.maxBatchSize) {
+      void this.flush();
+    }
+    if (!this.pending) {
+      this.pending = { writes: new Map(), writers: [], reads: new Map() };
+      this.pendingTimer = setTimeout(() => void this.flush(), this.batchDelayMs);
+    }
+    return this.pending;
+  }
+
+  /**
+   * Send the pending batch now. Never rejects; failures are passed to the callers waiting on the batch.
+   */
+  private async flush(): Promise<void> {
+    const batch = this.pending;
+    if (!batch) return;
+    this.pending = undefined;
+    clearTimeout(this.pendingTimer);
+
+    let response: KvBatchResponse;
+    try {
+      response = await this.sendBatch(Array.from(batch.writes), Array.from(batch.reads.keys()));
+    } catch (err) {
+      this.failBatch(batch, err);
+      return;
+    }
+
+    for (const writer of batch.writers) writer.resolve();
+    const entries = new Map(response.entries.map((entry) => [entry.key, entry]));
+    for (const [key, readers] of batch.reads) {
+      for (const reader of readers) reader.resolve(entries.get(key));
+    }
+  }
+
+  /**
+   * If the server is unavailable and the offline queue is on, queue the
+   * batch's writes and answer its reads from the queue; otherwise fail it.
+   */
+  private failBatch(batch: PendingBatch, err: unknown): void {
+    let queued = false;
+    if (err instanceof ServerUnavailableError && this.queueOptions && batch.writes.size > 0) {
+      try {
+        this.enqueue(Array.from(batch.writes));
+        queued = true;
+      } catch (queueErr) {
+        err = queueErr;
+      }
+    }
+
+    for (const writer of batch.writers) {
+      if (queued) writer.resolve();
+      else writer.reject(err);
+    }
+    for (const [key, readers] of batch.reads) {
+      const write = this.queued.get(key);
+      for (const reader of readers) {
+        if (write) reader.resolve(queuedEntry(key, write));
+        else reader.reject(err);
+      }
+    }
+  }
+
+  private enqueue(writes: Array<[string, Write]>): void {
+    const options = this.queueOptions!;
+    const added = writes.filter(([key]) => !this.queued.has(key)).length;
+    if (this.queued.size + added > options.maxEntries) {
+      throw new ServerUnavailableError(this.url, `the offline queue is full (${options.maxEntries} keys)`);
+    }
+    for (const [key, write] of writes) {
+      // Move rewritten keys to the end, so the queue keeps the order of the last writes
+      this.queued.delete(key);
+      this.queued.set(key, write);
+    }
+    this.replayInterval ??= setInterval(() => void this.replay(), options.replayIntervalMs);
+  }
+
+  /**
+   * Send queued writes to the server as one batch. If the server rejects the
+   * batch, the writes are sent one by one; those it rejects are dropped and
+   * their errors kept for the next writes.
+   */
+  private replay(): Promise<void> {
+    this.replaying ??= this.runReplay().finally(() => {
+      this.replaying = undefined;
+    });
+    return this.replaying;
+  }
+
+  private async runReplay(): Promise<void> {
+    const writes = Array.from(this.queued);
+    if (writes.length === 0) return;
+    try {
+      await this.sendBatch(writes, [], 0);
+      this.dequeue(writes);
+    } catch (err) {
+      if (err instanceof ServerUnavailableError) return;
+      for (const write of writes) {
+        try {
+          await this.sendBatch([write], [], 0);
+        } catch (writeErr) {
+          if (writeErr instanceof ServerUnavailableError) return;
+          console.error(`Dropping the queued write to "${write[0]}", the server rejected it:`, writeErr);
+          this.rejected.push(writeErr);
+        }
+        this.dequeue([write]);
+      }
+    } finally {
+      if (this.queued.size === 0) this.stopReplaying();
+    }
+  }
+
+  /**
+   * Remove replayed writes from the queue, unless the key was written again meanwhile.
+   */
+  private dequeue(writes: Array<[string, Write]>): void {
+    for (const [key, write] of writes) {
+      if (this.queued.get(key) === write) this.queued.delete(key);
+    }
+  }
+
+  private stopReplaying(): void {
+    clearInterval(this.replayInterval);
+    this.replayInterval = undefined;
+  }
+
+  /**
+   * List entries from the server after sending pending and queued writes, so the listing includes them.
+   */
+  private async listEntries(options: ListOptions): Promise<KvHttpEntry[]> {
+    this.ensureInitialized();
+    await this.flush();
+    if (this.queued.size > 0) await this.replay();
+    if (this.queued.size > 0) {
+      throw new ServerUnavailableError(this.url, `${this.queued.size} queued writes have not been replayed yet`);
+    }
+
+    const params = new URLSearchParams();
+    if (options.prefix !== undefined) params.set("prefix", options.prefix);
+    if (options.start !== undefined) params.set("start", options.start);
+    if (options.end !== undefined) params.set("end", options.end);
+    if (options.limit !== undefined) params.set("limit", String(options.limit));
+    if (options.reverse) params.set("reverse", "true");
+    const query = params.toString();
+    const { entries } = (await this.send("GET", query ? `?${query}` : "")) as { entries: KvHttpEntry[] };
+    for (const entry of entries) this.revisions.set(entry.key, entry.revision);
+    return entries;
+  }
+
+  private async sendBatch(
+    writes: Array<[string, Write]>,
+    reads: string[],
+    retries: number = this.retries
+  ): Promise<KvBatchResponse> {
+    const body: Required<Omit<KvBatchRequest, "client">> & KvBatchRequest = {
+      get: reads,
+      set: [],
+      delete: [],
+      internal: {},
+    };
+    if (this.config.clientId !== undefined) body.client = this.config.clientId;
+    for (const [key, write] of writes) {
+      if (key.startsWith(RESERVED_KEY_PREFIX)) {
+        body.internal[key] = write.type === "set" ? write.value : null;
+      } else if (write.type === "delete") {
+        body.delete.push({ key });
+      } else {
+        const entry: Required<KvBatchRequest>["set"][number] = { key, value: write.value };
+        if (write.expiresAt !== undefined) entry.expiresAt = write.expiresAt;
+        if (write.revision !== undefined) entry.revision = write.revision;
+        body.set.push(entry);
+      }
+    }
+    // The same key on every attempt, so the server applies a retried batch only once
+    const headers: Record<string, string> = writes.length > 0 ? { "Idempotency-Key": crypto.randomUUID() } : {};
+    const response = (await this.send("POST", "", body, retries, headers)) as KvBatchResponse;
+
+    for (const key of reads) this.revisions.delete(key);
+    for (const key of response.deleted) this.revisions.delete(key);
+    for (const [key, revision] of Object.entries(response.revisions)) this.revisions.set(key, revision);
+    for (const entry of response.entries) this.revisions.set(entry.key, entry.revision);
+    return response;
+  }
+
+  /**
+   * Send a request and return its JSON body. Network errors, timeouts, 429
+   * and 5xx responses are retried with exponential backoff, then reported as
+   * `ServerUnavailableError`. A 412 naming a key throws `RevisionConflictError`;
+   * other error responses throw `KeyValueStoreError`.
+   */
+  private async send(
+    method: string,
+    path: string,
+    body?: unknown,
+    retries: number = this.retries,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<unknown> {
+    const url = this.url + path;
+    const headers: Record<string, string> = { "Content-Type": "application/json", ...extraHeaders };
+    if (this.config.authToken !== undefined) headers.Authorization = `Bearer ${this.config.authToken}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let reason: string;
+      try {
+        const response = await fetch(url, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (response.ok) return response.status === 204 ? undefined : await response.json();
+        if (!isRetryable(response.status)) {
+          const error = (await response.json().catch(() => ({}))) as ErrorBody;
+          if (response.status === 412 && error.key !== undefined) {
+            throw new RevisionConflictError(error.key, error.expectedRevision ?? 0, error.actualRevision ?? 0);
+          }
+          throw new KeyValueStoreError(
+            `KV server rejected ${method} ${url}: ${response.status} ${error.error ?? response.statusText}`
+          );
+        }
+        reason = `${response.status} ${response.statusText}`;
+      } catch (err) {
+        if (err instanceof KeyValueStoreError) throw err;
+        reason = err instanceof Error && err.name === "TimeoutError"
+          ? `no response within ${this.timeoutMs}ms`
+          : err instanceof Error ? err.message : String(err);
+      }
+
+      if (attempt >= retries) throw new ServerUnavailableError(this.url, reason);
+      await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs * 2 ** attempt));
+    }
+  }
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || (status >= 500 && status !== 501);
+}
+
+function nonNegative(value: number | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+  if (!(value >= 0)) {
+    throw new KeyValueStoreError(`${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * The metadata of an entry. Entries read from the offline queue have no revision yet (0).
+ */
+function entryMetadata(entry: KvHttpEntry): EntryMetadata | undefined {
+  const meta: EntryMetadata = {};
+  if (entry.revision > 0) {
+    meta.revision = entry.revision;
+    meta.updatedAt = entry.updatedAt;
+  }
+  if (entry.expiresAt !== undefined) meta.expiresAt = entry.expiresAt;
+  return Object.keys(meta).length > 0 ? meta : undefined;
+}
+
+/**
+ * What a read sees of a write waiting in the offline queue.
+ */
+function queuedEntry(key: string, write: Write): KvHttpEntry | undefined {
+  if (write.type === "delete") return undefined;
+  const entry: KvHttpEntry = { key, value: write.value, revision: 0, updatedAt: 0 };
+  if (write.expiresAt !== undefined) entry.expiresAt = write.expiresAt;
+  return entry;
+}
@@ -0,0 +1,389 @@
+import { appendFile, rename, truncate } from "node:fs/promises";
+import { KeyValueStoreError } from "../errors";
+import { jsonSerializer } from "../serializers";
+import type {
+  AdapterBatch,
+  AdapterEntry,
+  BackupInfo,
+  BackupOptions,
+  CompressionOptions,
+  EntryMetadata,
+  KeyValueAdapterWithBackup,
+  ListOptions,
+  Serializer
+} from "../types";
+import { FileBackups } from "../utils/backup-files";
+import { applyListOptions } from "../utils/key-range";
+import { assertDocumentKey, entryMetadata, METADATA_KEY, type StoredMetadata, ValueCodec } from "../utils/value-codec";
+
+export type LogFileAdapterConfig = {
+  /**
+   * Path of the snapshot file. The log is kept next to it in `${filePath}.log`.
+   */
+  filePath: string;
+  /**
+   * Number of log records after which the log is folded into the snapshot.
+   * Defaults to 1000.
+   */
+  compactThreshold?: number;
+  /**
+   * How values are stored in the snapshot and log. Defaults to `jsonSerializer`.
+   */
+  serializer?: Serializer;
+  /**
+   * Compress values larger than a threshold in the snapshot and log. Off by default.
+   */
+  compression?: CompressionOptions;
+};
+
+/**
+ * An entry as written to the log: its encoded value and stored metadata.
+ */
+type StoredEntry = { key: string; value: unknown; meta?: StoredMetadata };
+
+/**
+ * One line of the log. Batches are a single record so they are replayed all or nothing.
+ */
+type LogRecord =
+  | ({ op: "set" } & StoredEntry)
+  | { op: "delete"; key: string }
+  | { op: "setMany"; entries: StoredEntry[] }
+  | { op: "deleteMany"; keys: string[] }
+  | { op: "batch"; entries: StoredEntry[]; keys: string[] };
+
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+
+/**
+ * A file adapter that appends one JSON line per mutation instead of rewriting
+ * the whole file. On `init()` the snapshot is loaded and the log replayed on top
+ * of it; once the log grows past `compactThreshold` records it is folded into a
+ * new snapshot. A partially written last line (e.g. after a crash) is discarded.
+ */
+export class LogFileAdapter implements KeyValueAdapterWithBackup {
+  private filePath: string;
+  private logPath: string;
+  private compactThreshold: number;
+  private cache: Record<string, unknown> = {};
+  private meta: Record<string, StoredMetadata> = {};
+  private logRecords = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private backups: FileBackups;
+  private codec: ValueCodec;
+  public readonly serializer: Serializer;
+
+  constructor(config: LogFileAdapterConfig) {
+    this.filePath = config.filePath;
+    this.logPath = `${config.filePath}.log`;
+    this.backups = new FileBackups(config.filePath);
+    this.serializer = config.serializer ?? jsonSerializer;
+    this.codec = new ValueCodec(this.serializer, config.compression);
+    this.compactThreshold = config.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD;
+    if (!Number.isInteger(this.compactThreshold) || this.compactThreshold < 1) {
+      throw new Error("compactThreshold must be a positive integer");
+    }
+  }
+
+  public async init(): Promise<void> {
+    this.cache = {};
+    this.meta = {};
+    this.logRecords = 0;
+
+    await this.loadSnapshot();
+    await this.replayLog();
+
+    // Drop entries that expired while the file was closed
+    const now = Date.now();
+    for (const key of Object.keys(this.meta)) {
+      if (this.isExpired(key, now)) {
+        delete this.cache[key];
+        delete this.meta[key];
+      }
+    }
+  }
+
+  public async get(key: string): Promise<unknown | undefined> {
+    if (this.isExpired(key) || !(key in this.cache)) return undefined;
+    return this.decode(key);
+  }
+
+  public async set(key: string, value: unknown, meta?: EntryMetadata): Promise<void> {
+    assertDocumentKey(key);
+    await this.append({ op: "set", ...this.encode({ key, value, meta }) });
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.append({ op: "delete", key });
+  }
+
+  /**
+   * Store several entries with a single log record.
+   */
+  public async setMany(entries: AdapterEntry[]): Promise<void> {
+    entries.forEach(({ key }) => assertDocumentKey(key));
+    await this.append({ op: "setMany", entries: entries.map((entry) => this.encode(entry)) });
+  }
+
+  /**
+   * Delete several keys with a single log record.
+   */
+  public async deleteMany(keys: string[]): Promise<void> {
+    await this.append({ op: "deleteMany", keys });
+  }
+
+  /**
+   * Store and delete entries with a single log record.
+   */
+  public async writeBatch({ sets, deletes }: AdapterBatch): Promise<void> {
+    sets.forEach(({ key }) => assertDocumentKey(key));
+    await this.append({ op: "batch", entries: sets.map((entry) => this.encode(entry)), keys: deletes });
+  }
+
+  /**
+   * Get all key/value pairs, skipping expired entries.
+   */
+  public async all(): Promise<Record<string, unknown>> {
+    const now = Date.now();
+    const data: Record<string, unknown> = {};
+    for (const key of Object.keys(this.cache)) {
+      if (!this.isExpired(key, now)) {
+        data[key] = this.decode(key);
+      }
+    }
+    return data;
+  }
+
+  /**
+   * List entries in key order, optionally restricted to a prefix or range.
+   */
+  public async list(options?: ListOptions): Promise<Array<[string, unknown]>> {
+    return applyListOptions(Object.entries(await this.all()), options);
+  }
+
+  /**
+   * Get the metadata of every entry that has any.
+   */
+  public async allMetadata(): Promise<Record<string, EntryMetadata>> {
+    const result: Record<string, EntryMetadata> = {};
+    for (const [key, stored] of Object.entries(this.meta)) {
+      const meta = entryMetadata(stored);
+      if (meta) result[key] = meta;
+    }
+    return result;
+  }
+
+  public async getMetadata(key: string): Promise<EntryMetadata | undefined> {
+    return entryMetadata(this.meta[key]);
+  }
+
+  /**
+   * Fold the log into a fresh snapshot and empty the log.
+   */
+  public async compact(): Promise<void> {
+    await this.enqueue(() => this.writeSnapshot());
+  }
+
+  /**
+   * Compact, then copy the snapshot to a new file with a timestamp suffix (or to `options.path`).
+   */
+  public async backup(options?: BackupOptions): Promise<BackupInfo> {
+    await this.compact();
+    return options?.path ? this.backups.createAt(options.path) : this.backups.create();
+  }
+
+  /**
+   * List backups of the snapshot, newest first.
+   */
+  public async listBackups(): Promise<BackupInfo[]> {
+    return this.backups.list();
+  }
+
+  public async verifyBackup(id: string): Promise<boolean> {
+    return this.backups.verify(id);
+  }
+
+  /**
+   * Replace the snapshot with a backup, empty the log and reload.
+   */
+  public async restoreBackup(id: string): Promise<void> {
+    const backupPath = this.backups.pathFor(id);
+    if (!(await Bun.file(backupPath).exists())) {
+      throw new KeyValueStoreError(`Backup "${id}" does not exist`);
+    }
+
+    await this.enqueue(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await Bun.write(tempPath, await Bun.file(backupPath).arrayBuffer());
+      await rename(tempPath, this.filePath);
+      await Bun.write(this.logPath, "");
+    });
+    await this.init();
+  }
+
+  public async deleteBackup(id: string): Promise<void> {
+    await this.backups.remove(id);
+  }
+
+  /**
+   * Number of records currently in the log (not yet folded into the snapshot).
+   */
+  public get pendingLogRecords(): number {
+    return this.logRecords;
+  }
+
+  private async loadSnapshot(): Promise<void> {
+    const file = Bun.file(this.filePath);
+    if (!(await file.exists())) return;
+
+    const text = await file.text();
+    if (text.trim() === "") return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new KeyValueStoreError(`Snapshot file "${this.filePath}" is not valid JSON`);
+    }
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      throw new KeyValueStoreError(`Snapshot file "${this.filePath}" does not contain a JSON object`);
+    }
+
+    const { [METADATA_KEY]: storedMeta, ...entries } = data as Record<string, unknown>;
+    this.cache = entries;
+    if (typeof storedMeta === "object" && storedMeta !== null) {
+      this.meta = storedMeta as Record<string, StoredMetadata>;
+    }
+  }
+
+  private async replayLog(): Promise<void> {
+    const file = Bun.file(this.logPath);
+    if (!(await file.exists())) return;
+
+    const text = await file.text();
+    // Every complete record ends with a newline, so the last piece is either empty or a torn write
+    const lines = text.split("\n").slice(0, -1);
+    let validBytes = 0;
+
+    for (const [index, line] of lines.entries()) {
+      validBytes += Buffer.byteLength(line) + 1;
+      if (line.trim() === "") continue;
+
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new KeyValueStoreError(`Log file "${this.logPath}" is corrupted at line ${index + 1}`);
+      }
+      this.applyRecord(record);
+      this.logRecords++;
+    }
+
+    // Cut off a torn tail so new records start on a fresh line
+    if (validBytes < file.size) {
+      await truncate(this.logPath, validBytes);
+    }
+  }
+
+  private async append(record: LogRecord): Promise<void> {
+    await this.enqueue(async () => {
+      await appendFile(this.logPath, JSON.stringify(record) + "\n");
+      this.applyRecord(record);
+      this.logRecords++;
+
+      if (this.logRecords >= this.compactThreshold) {
+        await this.writeSnapshot();
+      }
+    });
+  }
+
+  /**
+   * Serialize file operations so appends land in call order and never interleave with compaction.
+   */
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.catch(() => {});
+    return result;
+  }
+
+  private applyRecord(record: LogRecord): void {
+    switch (record.op) {
+      case "set":
+        this.applySet(record.key, record.value, record.meta);
+        break;
+      case "delete":
+        this.applyDelete(record.key);
+        break;
+      case "setMany":
+        for (const { key, value, meta } of record.entries) {
+          this.applySet(key, value, meta);
+        }
+        break;
+      case "deleteMany":
+        for (const key of record.keys) {
+          this.applyDelete(key);
+        }
+        break;
+      case "batch":
+        for (const { key, value, meta } of record.entries) {
+          this.applySet(key, value, meta);
+        }
+        for (const key of record.keys) {
+          this.applyDelete(key);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Encode an entry's value and keep only the metadata fields that are set,
+   * so the log and snapshot stay compact.
+   */
+  private encode({ key, value, meta }: AdapterEntry): StoredEntry {
+    const { value: storedValue, encoding, compression } = this.codec.toDocument(value);
+    const stored: StoredMetadata = { ...entryMetadata(meta) };
+    if (encoding !== undefined) stored.encoding = encoding;
+    if (compression !== undefined) stored.compression = compression;
+    return Object.keys(stored).length > 0 ? { key, value: storedValue, meta: stored } : { key, value: storedValue };
+  }
+
+  private decode(key: string): unknown {
+    const stored = this.meta[key];
+    return this.codec.fromDocument(this.cache[key], stored?.encoding, stored?.compression);
+  }
+
+  private applySet(key: string, value: unknown, meta?: StoredMetadata): void {
+    this.cache[key] = value;
+    if (meta && Object.keys(meta).length > 0) {
+      this.meta[key] = meta;
+    } else {
+      delete this.meta[key];
+    }
+  }
+
+  private applyDelete(key: string): void {
+    delete this.cache[key];
+    delete this.meta[key];
+  }
+
+  private isExpired(key: string, now: number = Date.now()): boolean {
+    const expiresAt = this.meta[key]?.expiresAt;
+    return expiresAt !== undefined && expiresAt <= now;
+  }
+
+  /**
+   * Write the snapshot to a temporary file and rename it into place, then empty
+   * the log. If we crash in between, replaying the old log onto the new snapshot
+   * yields the same state, since every record is an absolute write.
+   */
+  private async writeSnapshot(): Promise<void> {
+    const data: Record<string, unknown> = { ...this.cache };
+    if (Object.keys(this.meta).length > 0) {
+      data[METADATA_KEY] = this.meta;
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    await Bun.write(tempPath, JSON.stringify(data));
+    await rename(tempPath, this.filePath);
+    await Bun.write(this.logPath, "");
+    this.logRecords = 0;
+  }
+}
@@ -1,22 +1,115 @@
-import { Database } from "bun:sqlite";
-import type { KeyValueAdapterWithBackup } from "../types";
+import { Database, type Statement } from "bun:sqlite";
+import { rename, unlink } from "node:fs/promises";
+import { KeyValueStoreError } from "../errors";
+import { jsonSerializer } from "../serializers";
+import type {
+  AdapterBatch,
+  AdapterEntry,
+  BackupInfo,
+  BackupOptions,
+  ChangeFeedBatch,
+  ChangeFeedEntry,
+  CompressionAlgorithm,
+  CompressionOptions,
+  EntryMetadata,
+  KeyValueAdapterWithBackup,
+  ListOptions,
+  Serializer
+} from "../types";
+import { FileBackups } from "../utils/backup-files";
+import { prefixUpperBound } from "../utils/key-range";
+import { ValueCodec } from "../utils/value-codec";
+
+export type SqliteJournalMode = "WAL" | "DELETE" | "TRUNCATE" | "PERSIST" | "MEMORY" | "OFF";
+export type SqliteSynchronous = "OFF" | "NORMAL" | "FULL" | "EXTRA";
 
 export type SqliteAdapterConfig = {
   path: string;
-  tableName?: string; // default "key_value_store"
+  tableName?: string; // default "key_value_store"; letters, digits and underscores only
+  journalMode?: SqliteJournalMode; // default: SQLite's own ("DELETE"); "WAL" is recommended for servers
+  synchronous?: SqliteSynchronous; // default: SQLite's own ("FULL"); "NORMAL" is safe with WAL
+  busyTimeoutMs?: number; // default 5000
+  serializer?: Serializer; // default jsonSerializer; binary serializers store values in the value_blob column
+  compression?: CompressionOptions; // compressed values go in the value_blob column; off by default
+  /**
+   * Record every write in a `<tableName>_changes` table, so stores in other
+   * processes can pick it up with `readChanges()`. Off by default.
+   */
+  changeFeed?: boolean | SqliteChangeFeedOptions;
+};
+
+export type SqliteChangeFeedOptions = {
+  /**
+   * How long change records are kept. Readers that fall further behind reload
+   * everything. Defaults to 10 minutes.
+   */
+  retentionMs?: number;
+};
+
+const JOURNAL_MODES: readonly SqliteJournalMode[] = ["WAL", "DELETE", "TRUNCATE", "PERSIST", "MEMORY", "OFF"];
+const SYNCHRONOUS_LEVELS: readonly SqliteSynchronous[] = ["OFF", "NORMAL", "FULL", "EXTRA"];
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DEFAULT_CHANGE_RETENTION_MS = 10 * 60 * 1000;
+
+type ValueRow = {
+  value: string | null;
+  value_blob: Uint8Array | null;
+  encoding: string | null;
+  compression: CompressionAlgorithm | null;
 };
 
 /**
  * A simple SQLite adapter that will store key/value pairs in a table.
- * The "backup" method can be customized to create a separate table or
- * dump the DB file, etc.
+ * Journal mode, synchronous level and busy timeout are configurable; with
+ * `journalMode: "WAL"` several connections (e.g. one per server worker) can
+ * read while another writes. Prepared statements are cached for the lifetime
+ * of the connection. Values are stored with the configured serializer; the
+ * `encoding` column records which one, so rows written with another
+ * serializer (or before serializers existed) stay readable. With `compression`
+ * set, large values are compressed and flagged in the `compression` column.
+ * With `changeFeed` set, every write is also recorded (in the same transaction)
+ * in a change table that other processes' stores poll.
  */
 export class SqliteAdapter implements KeyValueAdapterWithBackup {
   private db: Database | null = null;
   private tableName: string;
+  private table: string; // quoted for use in SQL
+  private statements: Map<string, Statement> = new Map();
+  private backups: FileBackups;
+  private codec: ValueCodec;
+  private changeTable?: string; // quoted, set when the change feed is enabled
+  private changeRetentionMs: number = DEFAULT_CHANGE_RETENTION_MS;
+  private origin: string = crypto.randomUUID(); // identifies this adapter's own changes
+  public readonly serializer: Serializer;
 
   constructor(private config: SqliteAdapterConfig) {
     this.tableName = config.tableName ?? "key_value_store";
+    if (!TABLE_NAME_PATTERN.test(this.tableName)) {
+      throw new KeyValueStoreError(
+        `Invalid table name "${this.tableName}": use letters, digits and underscores, not starting with a digit`
+      );
+    }
+    if (config.journalMode !== undefined && !JOURNAL_MODES.includes(config.journalMode)) {
+      throw new KeyValueStoreError(`Invalid journalMode "${config.journalMode}"`);
+    }
+    if (config.synchronous !== undefined && !SYNCHRONOUS_LEVELS.includes(config.synchronous)) {
+      throw new KeyValueStoreError(`Invalid synchronous level "${config.synchronous}"`);
+    }
+    if (config.busyTimeoutMs !== undefined && !(Number.isInteger(config.busyTimeoutMs) && config.busyTimeoutMs >= 0)) {
+      throw new KeyValueStoreError("busyTimeoutMs must be a non-negative integer");
+    }
+    this.table = `"${this.tableName}"`;
+    if (config.changeFeed) {
+      const retentionMs = config.changeFeed === true ? undefined : config.changeFeed.retentionMs;
+      if (retentionMs !== undefined && !(retentionMs > 0)) {
+        throw new KeyValueStoreError("changeFeed.retentionMs must be a positive number");
+      }
+      this.changeTable = `"${this.tableName}_changes"`;
+      this.changeRetentionMs = retentionMs ?? DEFAULT_CHANGE_RETENTION_MS;
+    }
+    this.backups = new FileBackups(config.path);
+    this.serializer = config.serializer ?? jsonSerializer;
+    this.codec = new ValueCodec(this.serializer, config.compression);
     // DO NOT open the DB here to allow proper error handling in init()
   }
 
@@ -25,21 +118,103 @@ export class SqliteAdapter implements KeyValueAdapterWithBackup {
       // Open the DB in init():
       this.db = new Database(this.config.path);
 
+      // busy_timeout first, so the other pragmas wait for locks too. Values were validated in the constructor.
+      this.db.run(`PRAGMA busy_timeout = ${this.config.busyTimeoutMs ?? 5000};`);
+      if (this.config.journalMode) {
+        this.db.run(`PRAGMA journal_mode = ${this.config.journalMode};`);
+      }
+      if (this.config.synchronous) {
+        this.db.run(`PRAGMA synchronous = ${this.config.synchronous};`);
+      }
+
       // Create table if not exists
       const createTableQuery = `
-        CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        CREATE TABLE IF NOT EXISTS ${this.table} (
           key TEXT PRIMARY KEY,
-          value TEXT
+          value TEXT,
+          expires_at INTEGER,
+          revision INTEGER,
+          updated_at INTEGER,
+          encoding TEXT,
+          value_blob BLOB,
+          compression TEXT
         );
       `;
       this.db.run(createTableQuery);
+
+      // Tables created by older versions lack the metadata columns
+      this.ensureColumn("expires_at", "INTEGER");
+      this.ensureColumn("revision", "INTEGER");
+      this.ensureColumn("updated_at", "INTEGER");
+      this.ensureColumn("encoding", "TEXT");
+      this.ensureColumn("value_blob", "BLOB");
+      this.ensureColumn("compression", "TEXT");
+      this.db.run(
+        `CREATE INDEX IF NOT EXISTS "${this.tableName}_expires_at_idx" ON ${this.table} (expires_at);`
+      );
+
+      if (this.changeTable) {
+        this.db.run(`
+          CREATE TABLE IF NOT EXISTS ${this.changeTable} (
+            seq INTEGER PRIMARY KEY AUTOINCREMENT,
+            key TEXT NOT NULL,
+            op TEXT NOT NULL,
+            origin TEXT NOT NULL,
+            changed_at INTEGER NOT NULL
+          );
+        `);
+        this.db.run(
+          `CREATE INDEX IF NOT EXISTS "${this.tableName}_changes_changed_at_idx" ON ${this.changeTable} (changed_at);`
+        );
+      }
+
+      // Drop rows that expired while nobody had the store open
+      this.db.run(
+        `DELETE FROM ${this.table} WHERE expires_at IS NOT NULL AND expires_at <= ?;`,
+        [Date.now()]
+      );
     } catch (err) {
       // Ensure db is null if initialization fails
-      this.db = null;
+      this.closeDatabase();
       throw err;
     }
   }
 
+  /**
+   * Close the database connection. The adapter can be reopened with `init()`.
+   */
+  public async close(): Promise<void> {
+    this.closeDatabase();
+  }
+
+  private closeDatabase(): void {
+    for (const statement of this.statements.values()) {
+      statement.finalize();
+    }
+    this.statements.clear();
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Get a prepared statement for `sql`, preparing it on first use.
+   */
+  private statement(sql: string): Statement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db!.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  private ensureColumn(name: string, type: string): void {
+    const columns = this.db!.query(`PRAGMA table_info(${this.table})`).all() as { name: string }[];
+    if (!columns.some((column) => column.name === name)) {
+      this.db!.run(`ALTER TABLE ${this.table} ADD COLUMN ${name} ${type};`);
+    }
+  }
+
   private ensureInitialized(): void {
     if (!this.db) {
       throw new Error("SQLite adapter not initialized. Call init() first.");
@@ -48,31 +223,142 @@ export class SqliteAdapter implements KeyValueAdapterWithBackup {
 
   public async get(key: string): Promise<unknown | undefined> {
     this.ensureInitialized();
-    const row = this.db!.query(
-      `SELECT value FROM ${this.tableName} WHERE key = ?`
-    ).get(key) as { value: string } | null;
+    const row = this.statement(
+      `SELECT value, value_blob, encoding, compression FROM ${this.table}
+       WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`
+    ).get(key, Date.now()) as ValueRow | null;
 
-    if (!row) return undefined;
-    try {
-      return JSON.parse(row.value);
-    } catch {
-      return row.value;
+    return row ? this.decode(row) : undefined;
+  }
+
+  public async set(key: string, value: unknown, meta?: EntryMetadata): Promise<void> {
+    this.ensureInitialized();
+    if (this.changeTable) {
+      // Keep the row and its change record together
+      this.db!.transaction(() => this.upsert(key, value, meta))();
+    } else {
+      this.upsert(key, value, meta);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.ensureInitialized();
+    if (this.changeTable) {
+      this.db!.transaction(() => this.remove(key))();
+    } else {
+      this.remove(key);
     }
   }
 
-  public async set(key: string, value: unknown): Promise<void> {
+  /**
+   * Store several entries inside a single SQLite transaction.
+   */
+  public async setMany(entries: AdapterEntry[]): Promise<void> {
+    this.ensureInitialized();
+    this.db!.transaction(() => {
+      for (const { key, value, meta } of entries) {
+        this.upsert(key, value, meta);
+      }
+    })();
+  }
+
+  /**
+   * Delete several keys inside a single SQLite transaction.
+   */
+  public async deleteMany(keys: string[]): Promise<void> {
     this.ensureInitialized();
-    const jsonValue = JSON.stringify(value);
-    this.db!.run(
-      `INSERT INTO ${this.tableName} (key, value) VALUES (?, ?)
-       ON CONFLICT(key) DO UPDATE SET value=excluded.value;`,
-      [key, jsonValue]
+    this.db!.transaction(() => {
+      for (const key of keys) {
+        this.remove(key);
+      }
+    })();
+  }
+
+  /**
+   * Store and delete entries inside a single SQLite transaction.
+   */
+  public async writeBatch({ sets, deletes }: AdapterBatch): Promise<void> {
+    this.ensureInitialized();
+    this.db!.transaction(() => {
+      for (const { key, value, meta } of sets) {
+        this.upsert(key, value, meta);
+      }
+      for (const key of deletes) {
+        this.remove(key);
+      }
+    })();
+  }
+
+  private upsert(key: string, value: unknown, meta?: EntryMetadata): void {
+    const { text, blob, encoding, compression } = this.codec.toColumn(value);
+    this.statement(
+      `INSERT INTO ${this.table} (key, value, value_blob, encoding, compression, expires_at, revision, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value=excluded.value, value_blob=excluded.value_blob,
+         encoding=excluded.encoding, compression=excluded.compression, expires_at=excluded.expires_at,
+         revision=excluded.revision, updated_at=excluded.updated_at;`
+    ).run(
+      key, text, blob, encoding, compression,
+      meta?.expiresAt ?? null, meta?.revision ?? null, meta?.updatedAt ?? null
     );
+    this.recordChange(key, "set");
   }
 
-  public async delete(key: string): Promise<void> {
+  private decode(row: ValueRow): unknown {
+    return this.codec.fromColumn(row.value, row.value_blob, row.encoding, row.compression);
+  }
+
+  private remove(key: string): void {
+    this.statement(`DELETE FROM ${this.table} WHERE key = ?;`).run(key);
+    this.recordChange(key, "delete");
+  }
+
+  private recordChange(key: string, op: ChangeFeedEntry["op"]): void {
+    if (!this.changeTable) return;
+    this.statement(
+      `INSERT INTO ${this.changeTable} (key, op, origin, changed_at) VALUES (?, ?, ?, ?);`
+    ).run(key, op, this.origin, Date.now());
+  }
+
+  private ensureChangeFeed(): void {
     this.ensureInitialized();
-    this.db!.run(`DELETE FROM ${this.tableName} WHERE key = ?;`, [key]);
+    if (!this.changeTable) {
+      throw new KeyValueStoreError("The change feed is not enabled; set changeFeed in the SqliteAdapter config");
+    }
+  }
+
+  /**
+   * The sequence number of the newest change record, or 0 if there is none.
+   */
+  public async latestChangeSeq(): Promise<number> {
+    this.ensureChangeFeed();
+    const row = this.statement(`SELECT MAX(seq) AS last FROM ${this.changeTable}`).get() as { last: number | null };
+    return row.last ?? 0;
+  }
+
+  /**
+   * Changes made through other adapter instances after `afterSeq`, oldest first.
+   * Also prunes records older than the retention period, always keeping the newest.
+   */
+  public async readChanges(afterSeq: number): Promise<ChangeFeedBatch> {
+    this.ensureChangeFeed();
+    return this.db!.transaction(() => {
+      this.statement(
+        `DELETE FROM ${this.changeTable} WHERE changed_at < ? AND seq < (SELECT MAX(seq) FROM ${this.changeTable});`
+      ).run(Date.now() - this.changeRetentionMs);
+
+      const bounds = this.statement(
+        `SELECT MIN(seq) AS first, MAX(seq) AS last FROM ${this.changeTable}`
+      ).get() as { first: number | null; last: number | null };
+      const lastSeq = bounds.last ?? 0;
+      // Sequence numbers have no gaps, so a missing successor means records were pruned
+      const truncated = afterSeq > lastSeq || (bounds.first !== null && afterSeq < bounds.first - 1);
+
+      const changes = this.statement(
+        `SELECT seq, key, op FROM ${this.changeTable} WHERE seq > ? AND origin != ? ORDER BY seq`
+      ).all(afterSeq, this.origin) as ChangeFeedEntry[];
+      return { changes, lastSeq, truncated };
+    })();
   }
 
   /**
@@ -80,29 +366,174 @@ export class SqliteAdapter implements KeyValueAdapterWithBackup {
    */
   public async all(): Promise<Record<string, unknown>> {
     this.ensureInitialized();
-    const rows = this.db!.query(`SELECT key, value FROM ${this.tableName}`).all() as { key: string; value: string }[];
+    const rows = this.statement(
+      `SELECT key, value, value_blob, encoding, compression FROM ${this.table} WHERE expires_at IS NULL OR expires_at > ?`
+    ).all(Date.now()) as (ValueRow & { key: string })[];
     const data: Record<string, unknown> = {};
     
     for (const row of rows) {
-      try {
-        data[row.key] = JSON.parse(row.value);
-      } catch {
-        data[row.key] = row.value;
-      }
+      data[row.key] = this.decode(row);
     }
     return data;
   }
 
   /**
-   * Example backup implementation.
-   * For a real backup, you might dump the entire DB or copy the file.
+   * List entries in key order. Prefix and range bounds are translated into
+   * comparisons on the primary key so SQLite can serve them from its index.
+   */
+  public async list(options: ListOptions = {}): Promise<Array<[string, unknown]>> {
+    this.ensureInitialized();
+    const conditions = ["(expires_at IS NULL OR expires_at > ?)"];
+    const params: (string | number)[] = [Date.now()];
+
+    if (options.prefix !== undefined && options.prefix !== "") {
+      conditions.push("key >= ?");
+      params.push(options.prefix);
+      const upperBound = prefixUpperBound(options.prefix);
+      if (upperBound !== undefined) {
+        conditions.push("key < ?");
+        params.push(upperBound);
+      }
+    }
+    if (options.start !== undefined) {
+      conditions.push("key >= ?");
+      params.push(options.start);
+    }
+    if (options.end !== undefined) {
+      conditions.push("key < ?");
+      params.push(options.end);
+    }
+
+    let query = `SELECT key, value, value_blob, encoding, compression FROM ${this.table} WHERE ${conditions.join(" AND ")}
+      ORDER BY key ${options.reverse ? "DESC" : "ASC"}`;
+    if (options.limit !== undefined) {
+      query += " LIMIT ?";
+      params.push(Math.max(0, Math.floor(options.limit)));
+    }
+
+    // Only a handful of condition combinations exist, so caching each one is cheap
+    const rows = this.statement(query).all(...params) as (ValueRow & { key: string })[];
+    return rows.map((row) => [row.key, this.decode(row)]);
+  }
+
+  /**
+   * Get the metadata (expiration, revision, last update) of every entry that has any.
+   */
+  public async allMetadata(): Promise<Record<string, EntryMetadata>> {
+    this.ensureInitialized();
+    const rows = this.statement(
+      `SELECT key, expires_at, revision, updated_at FROM ${this.table}
+       WHERE expires_at IS NOT NULL OR revision IS NOT NULL OR updated_at IS NOT NULL`
+    ).all() as { key: string; expires_at: number | null; revision: number | null; updated_at: number | null }[];
+    const meta: Record<string, EntryMetadata> = {};
+
+    for (const row of rows) {
+      const entry: EntryMetadata = {};
+      if (row.expires_at !== null) entry.expiresAt = row.expires_at;
+      if (row.revision !== null) entry.revision = row.revision;
+      if (row.updated_at !== null) entry.updatedAt = row.updated_at;
+      meta[row.key] = entry;
+    }
+    return meta;
+  }
+
+  /**
+   * Get the metadata of a single entry, or undefined if it has none.
+   */
+  public async getMetadata(key: string): Promise<EntryMetadata | undefined> {
+    this.ensureInitialized();
+    const row = this.statement(
+      `SELECT expires_at, revision, updated_at FROM ${this.table} WHERE key = ?`
+    ).get(key) as { expires_at: number | null; revision: number | null; updated_at: number | null } | null;
+    if (!row) return undefined;
+
+    const entry: EntryMetadata = {};
+    if (row.expires_at !== null) entry.expiresAt = row.expires_at;
+    if (row.revision !== null) entry.revision = row.revision;
+    if (row.updated_at !== null) entry.updatedAt = row.updated_at;
+    return Object.keys(entry).length > 0 ? entry : undefined;
+  }
+
+  /**
+   * Back up the database with `VACUUM INTO`, which writes a consistent snapshot
+   * while the database stays open (unlike copying the file, which can capture a
+   * half-written page or miss data still in the WAL). The result must pass
+   * `PRAGMA integrity_check`, otherwise it is deleted and an error is thrown.
+   */
+  public async backup(options?: BackupOptions): Promise<BackupInfo> {
+    this.ensureInitialized();
+    const write = async (backupPath: string) => {
+      this.db!.run("VACUUM INTO ?", [backupPath]);
+      try {
+        this.checkIntegrity(backupPath);
+      } catch (err) {
+        await unlink(backupPath).catch(() => {});
+        throw err;
+      }
+    };
+    return options?.path ? this.backups.createAt(options.path, write) : this.backups.create(write);
+  }
+
+  /**
+   * List backups of the database file, newest first.
+   */
+  public async listBackups(): Promise<BackupInfo[]> {
+    return this.backups.list();
+  }
+
+  public async verifyBackup(id: string): Promise<boolean> {
+    return this.backups.verify(id);
+  }
+
+  /**
+   * Close the database, replace its file with the backup and reopen it. The WAL
+   * is checkpointed and removed first, so none of its pages are replayed over
+   * the restored file.
    */
-  public async backup(): Promise<void> {
+  public async restoreBackup(id: string): Promise<void> {
     this.ensureInitialized();
-    // A naive approach: copy the database file with a timestamp
-    const timestamp = Date.now();
-    const backupFile = `${this.config.path}.${timestamp}.backup`;
-    // This uses Bun's file copy:
-    await Bun.write(backupFile, await Bun.file(this.config.path).arrayBuffer());
+    const backupPath = this.backups.pathFor(id);
+    if (!(await Bun.file(backupPath).exists())) {
+      throw new KeyValueStoreError(`Backup "${id}" does not exist`);
+    }
+
+    this.checkIntegrity(backupPath);
+
+    this.db!.run("PRAGMA wal_checkpoint(TRUNCATE);");
+    this.closeDatabase();
+    for (const suffix of ["-wal", "-shm"]) {
+      await unlink(`${this.config.path}${suffix}`).catch(() => {});
+    }
+    const tempPath = `${this.config.path}.${process.pid}.restore.tmp`;
+    await Bun.write(tempPath, await Bun.file(backupPath).arrayBuffer());
+    await rename(tempPath, this.config.path);
+    await this.init();
+  }
+
+  public async deleteBackup(id: string): Promise<void> {
+    await this.backups.remove(id);
+  }
+
+  /**
+   * Run `PRAGMA integrity_check` on a database file, throwing if it reports problems.
+   */
+  private checkIntegrity(path: string): void {
+    let problems: string[];
+    try {
+      const db = new Database(path, { readonly: true });
+      try {
+        problems = (db.query("PRAGMA integrity_check").all() as { integrity_check: string }[])
+          .map((row) => row.integrity_check)
+          .filter((result) => result !== "ok");
+      } finally {
+        db.close();
+      }
+    } catch (err) {
+      problems = [(err as Error).message];
+    }
+
+    if (problems.length > 0) {
+      throw new KeyValueStoreError(`SQLite backup "${path}" failed the integrity check: ${problems.join("; ")}`);
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,163 @@
+import type { KeyValueStore } from "./key-value-store";
+import type {
+  CollectionHooks,
+  CollectionOptions,
+  DeleteOptions,
+  EntryWithMeta,
+  ListOptions,
+  SetOptions,
+  ValueValidator
+} from "./types";
+
+const DEFAULT_SEPARATOR = ":";
+
+/**
+ * A typed view of a `KeyValueStore` scoped to a key prefix. Keys passed to and
+ * returned from a collection are relative to the prefix, and the collection's
+ * validator is applied automatically on every read and write.
+ */
+export class KeyValueCollection<T> {
+  public readonly name: string;
+  public readonly prefix: string;
+  private validator?: ValueValidator<T>;
+
+  constructor(
+    private store: KeyValueStore,
+    name: string,
+    options?: CollectionOptions<T>
+  ) {
+    if (typeof name !== "string" || name === "") {
+      throw new Error("Collection name must be a non-empty string");
+    }
+    this.name = name;
+    this.prefix = `${name}${options?.separator ?? DEFAULT_SEPARATOR}`;
+    this.validator = options?.validator;
+  }
+
+  public get(key: string): T | undefined {
+    return this.store.get<T>(this.fullKey(key), { validator: this.validator });
+  }
+
+  public getWithMeta(key: string): EntryWithMeta<T> | undefined {
+    return this.store.getWithMeta<T>(this.fullKey(key), { validator: this.validator });
+  }
+
+  public has(key: string): boolean {
+    return this.store.has(this.fullKey(key));
+  }
+
+  public set(key: string, value: T, options?: Omit<SetOptions<T>, "validator">): T {
+    return this.store.set<T>(this.fullKey(key), value, { ...options, validator: this.validator });
+  }
+
+  public delete(key: string): void {
+    this.store.delete(this.fullKey(key));
+  }
+
+  public async getAsync(key: string): Promise<T | undefined> {
+    return this.store.getAsync<T>(this.fullKey(key), { validator: this.validator });
+  }
+
+  public async getWithMetaAsync(key: string): Promise<EntryWithMeta<T> | undefined> {
+    return this.store.getWithMetaAsync<T>(this.fullKey(key), { validator: this.validator });
+  }
+
+  public async hasAsync(key: string): Promise<boolean> {
+    return this.store.hasAsync(this.fullKey(key));
+  }
+
+  /**
+   * Like `set()`, but works in lazy mode and supports async `beforeSet` hooks.
+   */
+  public async setAsync(key: string, value: T, options?: Omit<SetOptions<T>, "validator">): Promise<T> {
+    return this.store.setAsync<T>(this.fullKey(key), value, { ...options, validator: this.validator });
+  }
+
+  public async deleteAsync(key: string, options?: DeleteOptions): Promise<void> {
+    await this.store.deleteAsync(this.fullKey(key), options);
+  }
+
+  /**
+   * List the collection's keys (without the prefix) in sorted order.
+   * `prefix`, `start` and `end` are relative to the collection.
+   */
+  public keys(options?: ListOptions): string[] {
+    return this.store.keys(this.scopeListOptions(options)).map((key) => this.relativeKey(key));
+  }
+
+  /**
+   * List the collection's entries (keys without the prefix), validating each value.
+   */
+  public entries(options?: ListOptions): Array<[string, T]> {
+    return this.store.entries(this.scopeListOptions(options)).map(([key, value]) => [
+      this.relativeKey(key),
+      this.validator ? this.validator(value) : (value as T),
+    ]);
+  }
+
+  /**
+   * Like `keys()`, but in lazy mode lists the keys from the adapter.
+   */
+  public async keysAsync(options?: ListOptions): Promise<string[]> {
+    const keys = await this.store.keysAsync(this.scopeListOptions(options));
+    return keys.map((key) => this.relativeKey(key));
+  }
+
+  /**
+   * Like `entries()`, but in lazy mode lists the entries from the adapter.
+   */
+  public async entriesAsync(options?: ListOptions): Promise<Array<[string, T]>> {
+    const entries = await this.store.entriesAsync(this.scopeListOptions(options));
+    return entries.map(([key, value]) => [this.relativeKey(key), this.validator ? this.validator(value) : (value as T)]);
+  }
+
+  /**
+   * Delete every key in the collection.
+   */
+  public clear(): void {
+    for (const key of this.store.keys({ prefix: this.prefix })) {
+      this.store.delete(key);
+    }
+  }
+
+  /**
+   * Subscribe hooks that only fire for keys in this collection. Keys passed to
+   * the hooks are relative to the collection. Returns a function that unsubscribes them.
+   */
+  public subscribe(hooks: CollectionHooks<T>): () => void {
+    return this.store.addHooks({
+      onUpdate: hooks.onUpdate
+        ? (key, newValue) => {
+          if (!key.startsWith(this.prefix)) return;
+          return hooks.onUpdate!(this.relativeKey(key), newValue as unknown as T);
+        }
+        : undefined,
+      onDelete: hooks.onDelete
+        ? (key, reason) => {
+          if (!key.startsWith(this.prefix)) return;
+          return hooks.onDelete!(this.relativeKey(key), reason);
+        }
+        : undefined,
+    });
+  }
+
+  private fullKey(key: string): string {
+    if (typeof key !== "string") {
+      throw new Error("Key must be a string");
+    }
+    return this.prefix + key;
+  }
+
+  private relativeKey(key: string): string {
+    return key.slice(this.prefix.length);
+  }
+
+  private scopeListOptions(options: ListOptions = {}): ListOptions {
+    return {
+      ...options,
+      prefix: this.prefix + (options.prefix ?? ""),
+      start: options.start !== undefined ? this.prefix + options.start : undefined,
+      end: options.end !== undefined ? this.prefix + options.end : undefined,
+    };
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Base class for errors raised by the store and its adapters, so callers can
+ * distinguish them from unrelated failures with a single `instanceof` check.
+ */
+export class KeyValueStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeyValueStoreError";
+  }
+}
+
+/**
+ * Thrown when an optimistic write expected a different revision of the key
+ * than the one currently in the store.
+ */
+export class RevisionConflictError extends KeyValueStoreError {
+  constructor(
+    public readonly key: string,
+    public readonly expectedRevision: number,
+    public readonly actualRevision: number
+  ) {
+    super(
+      `Revision conflict for key "${key}": expected revision ${expectedRevision}, found ${actualRevision}`
+    );
+    this.name = "RevisionConflictError";
+  }
+}
+
+/**
+ * Thrown when a `beforeSet` or `beforeDelete` hook vetoes a write.
+ */
+export class WriteVetoedError extends KeyValueStoreError {
+  constructor(
+    public readonly key: string,
+    public readonly operation: "set" | "delete"
+  ) {
+    super(`The ${operation} of key "${key}" was vetoed by a hook`);
+    this.name = "WriteVetoedError";
+  }
+}
+
+/**
+ * Thrown when a store file cannot be parsed. The file is left untouched so it
+ * can be inspected or restored by hand.
+ */
+export class StoreCorruptedError extends KeyValueStoreError {
+  constructor(
+    public readonly filePath: string,
+    public readonly reason: string
+  ) {
+    super(`Store file "${filePath}" is corrupted: ${reason}`);
+    this.name = "StoreCorruptedError";
+  }
+}
+
+/**
+ * Thrown when another live process holds the lock on a store file.
+ */
+export class StoreLockedError extends KeyValueStoreError {
+  constructor(
+    public readonly filePath: string,
+    public readonly ownerPid: number
+  ) {
+    super(`Store file "${filePath}" is locked by process ${ownerPid}`);
+    this.name = "StoreLockedError";
+  }
+}
+
+/**
+ * Thrown when a backup does not match the checksum recorded when it was made,
+ * or has no recorded checksum, and the caller asked for verification.
+ */
+export class BackupVerificationError extends KeyValueStoreError {
+  constructor(public readonly backupId: string) {
+    super(`Backup "${backupId}" failed verification`);
+    this.name = "BackupVerificationError";
+  }
+}
+
+/**
+ * Thrown by `init()` when a migration step fails. Nothing is written, so the
+ * stored data stays at its previous schema version.
+ */
+export class MigrationError extends KeyValueStoreError {
+  constructor(
+    public readonly version: number,
+    public readonly key: string | undefined,
+    public readonly cause: unknown
+  ) {
+    super(
+      key === undefined
+        ? `Migration to schema version ${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`
+        : `Migration to schema version ${version} failed for key "${key}": ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Thrown by store operations called after `close()`.
+ */
+export class StoreClosedError extends KeyValueStoreError {
+  constructor(public readonly operation: string) {
+    super(`Cannot call ${operation}() on a closed store`);
+    this.name = "StoreClosedError";
+  }
+}
+
+/**
+ * Thrown by `EncryptedAdapter.init()` when the supplied key is not the one
+ * the stored data was encrypted with.
+ */
+export class EncryptionKeyError extends KeyValueStoreError {
+  constructor() {
+    super("The encryption key does not match the key the stored data was encrypted with");
+    this.name = "EncryptionKeyError";
+  }
+}
+
+/**
+ * Thrown by `HttpAdapter` when the server cannot be reached (network error,
+ * timeout or 5xx response) after all retries.
+ */
+export class ServerUnavailableError extends KeyValueStoreError {
+  constructor(
+    public readonly url: string,
+    public readonly reason: string
+  ) {
+    super(`KV server at "${url}" is unavailable: ${reason}`);
+    this.name = "ServerUnavailableError";
+  }
+}
@@ -0,0 +1,148 @@
+import { KeyValueStoreError, WriteVetoedError } from "./errors";
+import type { BeforeSetResult, HookErrorContext, HookMode, HookName, KeyValueStoreHooks } from "./types";
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | undefined)?.then === "function";
+}
+
+/**
+ * Invokes the configured hooks plus any subscribed later, and decides what
+ * happens to their errors: they are passed to `onHookError` when configured,
+ * rethrown to callers that await them in "await" mode, and logged otherwise.
+ */
+export class HookRunner {
+  private subscribed: Set<KeyValueStoreHooks> = new Set();
+
+  constructor(
+    private hooks: KeyValueStoreHooks,
+    public readonly mode: HookMode,
+    private onHookError?: (error: unknown, context: HookErrorContext) => void
+  ) {}
+
+  /**
+   * Subscribe additional hooks. Returns a function that unsubscribes them.
+   */
+  public add(hooks: KeyValueStoreHooks): () => void {
+    this.subscribed.add(hooks);
+    return () => {
+      this.subscribed.delete(hooks);
+    };
+  }
+
+  /**
+   * Run `beforeSet` hooks synchronously and return the (possibly transformed) value.
+   * Throws `WriteVetoedError` if a hook vetoes the write.
+   */
+  public beforeSet(key: string, value: unknown, oldValue: unknown): unknown {
+    let current = value;
+    for (const hooks of this.all()) {
+      if (!hooks.beforeSet) continue;
+      const result = hooks.beforeSet(key, current, oldValue);
+      if (isPromiseLike(result)) {
+        throw new KeyValueStoreError(
+          `beforeSet hook for "${key}" returned a promise; use setAsync() with async before hooks`
+        );
+      }
+      current = this.applyBeforeSetResult(key, current, result);
+    }
+    return current;
+  }
+
+  /**
+   * Like `beforeSet()`, but awaits async hooks.
+   */
+  public async beforeSetAsync(key: string, value: unknown, oldValue: unknown): Promise<unknown> {
+    let current = value;
+    for (const hooks of this.all()) {
+      if (!hooks.beforeSet) continue;
+      const result = await hooks.beforeSet(key, current, oldValue);
+      current = this.applyBeforeSetResult(key, current, result);
+    }
+    return current;
+  }
+
+  /**
+   * Run `beforeDelete` hooks synchronously. Throws `WriteVetoedError` if a hook vetoes the delete.
+   */
+  public beforeDelete(key: string, oldValue: unknown): void {
+    for (const hooks of this.all()) {
+      if (!hooks.beforeDelete) continue;
+      const result = hooks.beforeDelete(key, oldValue);
+      if (isPromiseLike(result)) {
+        throw new KeyValueStoreError(
+          `beforeDelete hook for "${key}" returned a promise; use deleteAsync() with async before hooks`
+        );
+      }
+      if (result === false) throw new WriteVetoedError(key, "delete");
+    }
+  }
+
+  /**
+   * Like `beforeDelete()`, but awaits async hooks.
+   */
+  public async beforeDeleteAsync(key: string, oldValue: unknown): Promise<void> {
+    for (const hooks of this.all()) {
+      if (!hooks.beforeDelete) continue;
+      if ((await hooks.beforeDelete(key, oldValue)) === false) {
+        throw new WriteVetoedError(key, "delete");
+      }
+    }
+  }
+
+  /**
+   * Call an after-hook on every hook set. The returned promise settles once
+   * all async hooks have finished. It only rejects when `awaited` is true, the
+   * mode is "await" and no `onHookError` is configured; otherwise errors are reported.
+   */
+  public emit(
+    hook: Exclude<HookName, "beforeSet" | "beforeDelete">,
+    key: string | undefined,
+    invoke: (hooks: KeyValueStoreHooks) => void | Promise<void> | undefined,
+    awaited: boolean = false
+  ): Promise<void> {
+    const context: HookErrorContext = { hook, key };
+    const pending: Promise<void>[] = [];
+
+    for (const hooks of this.all()) {
+      try {
+        const result = invoke(hooks);
+        if (isPromiseLike(result)) {
+          pending.push(Promise.resolve(result).then(
+            () => undefined,
+            (err) => this.handleError(err, context, awaited)
+          ));
+        }
+      } catch (err) {
+        pending.push(this.handleError(err, context, awaited));
+      }
+    }
+
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  private all(): KeyValueStoreHooks[] {
+    return [this.hooks, ...this.subscribed];
+  }
+
+  private applyBeforeSetResult(key: string, current: unknown, result: BeforeSetResult): unknown {
+    if (result === false) throw new WriteVetoedError(key, "set");
+    if (result && typeof result === "object" && "value" in result) return result.value;
+    return current;
+  }
+
+  private handleError(err: unknown, context: HookErrorContext, awaited: boolean): Promise<void> {
+    if (this.onHookError) {
+      try {
+        this.onHookError(err, context);
+      } catch (handlerErr) {
+        console.error("onHookError failed:", handlerErr);
+      }
+      return Promise.resolve();
+    }
+    if (awaited && this.mode === "await") {
+      return Promise.reject(err);
+    }
+    console.error(`${context.hook} hook failed:`, err);
+    return Promise.resolve();
+  }
+}
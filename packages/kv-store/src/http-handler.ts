@@ -0,0 +1,655 @@
+import { timingSafeEqual } from "node:crypto";
+import type { KeyValueStore } from "./key-value-store";
+import type { CollectionOptions, ListOptions, SetOptions } from "./types";
+import { BackupVerificationError, RevisionConflictError, StoreClosedError, WriteVetoedError } from "./errors";
+
+const DEFAULT_BASE_PATH = "/kv";
+const DEFAULT_SEPARATOR = ":";
+const RESERVED_KEY_PREFIX = "__";
+const BACKUPS_PATH = "/__backups";
+const INTERNAL_PATH = "/__internal";
+/**
+ * Prefix of the entries holding a client store's own keys (see `KvBatchRequest.internal`).
+ */
+const INTERNAL_KEY_PREFIX = "__client:";
+const CLIENT_ID_PATTERN = /^[\w.-]+$/;
+/**
+ * How many batch responses are remembered for requests repeated with the same `Idempotency-Key`.
+ */
+const IDEMPOTENCY_CACHE_SIZE = 1000;
+
+/**
+ * Handles one request. Pass it to `Bun.serve({ fetch })` or call it from your
+ * own router.
+ */
+export type KvHttpHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Options accepted by `createKvHttpHandler()`.
+ */
+export type KvHttpHandlerOptions = {
+  /**
+   * Path the API is served under. Defaults to "/kv".
+   */
+  basePath?: string;
+  /**
+   * Require `Authorization: Bearer <token>` on every request. Either the
+   * expected token, or a function deciding whether a token is valid.
+   */
+  authToken?: string | ((token: string, request: Request) => boolean | Promise<boolean>);
+  /**
+   * Validators for values written through the API, keyed by collection name.
+   * A collection covers the keys starting with its name and separator, as
+   * with `store.collection()`. Values failing validation are rejected with 400.
+   */
+  collections?: Record<string, CollectionOptions<unknown>>;
+  /**
+   * Serve the store's backups under `<basePath>/__backups`, so clients such as
+   * `HttpAdapter` can create, list, verify and restore them. Defaults to false.
+   */
+  backups?: boolean;
+};
+
+/**
+ * An entry as returned by the listing and batch endpoints.
+ */
+export type KvHttpEntry = {
+  key: string;
+  value: unknown;
+  revision: number;
+  updatedAt: number;
+  expiresAt?: number;
+};
+
+/**
+ * Body of a batch request (`POST <basePath>`). Sets are applied before
+ * deletes, then the `get` keys are read. `revision` makes a write
+ * conditional, as with `compareAndSet()` (0 requires that the key does not exist).
+ * A key may only be written once per batch.
+ *
+ * `internal` writes the client store's own keys (`__version__`,
+ * `__schema_version__`) along with the batch, `null` removing one. They belong
+ * to the client named by `client` (letters, digits, ".", "_" and "-"), which
+ * reads them back with `GET <basePath>/__internal?client=<client>`.
+ */
+export type KvBatchRequest = {
+  get?: string[];
+  set?: Array<{ key: string; value: unknown; ttlMs?: number; expiresAt?: number; revision?: number }>;
+  delete?: Array<{ key: string; revision?: number }>;
+  internal?: Record<string, unknown>;
+  client?: string;
+};
+
+/**
+ * A validated batch request. `client` is only required with `internal` writes.
+ */
+type ParsedBatch = Required<Omit<KvBatchRequest, "client">> & Pick<KvBatchRequest, "client">;
+
+/**
+ * Body of a batch response: the new revision of every key set, the keys that
+ * were deleted and the requested entries that exist.
+ */
+export type KvBatchResponse = {
+  revisions: Record<string, number>;
+  deleted: string[];
+  entries: KvHttpEntry[];
+};
+
+/**
+ * An `If-Match` or `If-None-Match` condition: any existing revision (`*`) or one of a list.
+ */
+type RevisionCondition = "*" | number[];
+
+/**
+ * Checks a key's current revision before a conditional write, throwing if the write must not happen.
+ */
+type RevisionCheck = (revision: number) => void;
+
+/**
+ * A response kept for repeats of an idempotent request.
+ */
+type StoredResponse = { status: number; body: string };
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Build a fetch-style handler exposing `store` as a JSON REST API:
+ *
+ * - `GET <basePath>/:key` returns the value, with the key's revision as `ETag`
+ * - `PUT <basePath>/:key` stores the request body (`?ttlMs=` / `?expiresAt=` set an expiration)
+ * - `DELETE <basePath>/:key` removes the key
+ * - `GET <basePath>?prefix=&start=&end=&limit=&reverse=` lists entries
+ * - `POST <basePath>` runs a `KvBatchRequest`
+ *
+ * `PUT` and `DELETE` honour `If-Match` and `If-None-Match` against the key's
+ * revision and answer 412 when they do not hold. Keys starting with "__" are
+ * reserved for the store. A batch sent with an `Idempotency-Key` header is
+ * applied once: repeating it with the same key (e.g. after a lost response)
+ * returns the first response, for the last 1000 keys.
+ *
+ * `GET <basePath>/__internal?client=<client>` returns the store keys a client
+ * wrote through a batch's `internal` field, as `{ internal }`. They are kept in
+ * `store` as `__client:<client>:<name>` entries, which the API never lists.
+ *
+ * With the `backups` option, `GET <basePath>/__backups` lists backups,
+ * `POST <basePath>/__backups` creates one, and `POST <basePath>/__backups/:id/verify`
+ * and `POST <basePath>/__backups/:id/restore` (body `{ verify? }`) act on one.
+ */
+export function createKvHttpHandler(store: KeyValueStore, options: KvHttpHandlerOptions = {}): KvHttpHandler {
+  const basePath = (options.basePath ?? DEFAULT_BASE_PATH).replace(/\/+$/, "");
+  const authorize = options.authToken === undefined ? undefined : tokenCheck(options.authToken);
+  const collections = Object.entries(options.collections ?? {}).map(([name, collection]) => ({
+    prefix: `${name}${collection.separator ?? DEFAULT_SEPARATOR}`,
+    validator: collection.validator,
+  }));
+
+  const validate = (key: string, value: unknown): unknown => {
+    checkKey(key);
+    const validator = collections.find(({ prefix }) => key.startsWith(prefix))?.validator;
+    if (!validator) return value;
+    try {
+      return validator(value);
+    } catch (err) {
+      throw new HttpError(400, `Invalid value for key "${key}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const readEntry = async (key: string): Promise<KvHttpEntry | undefined> => {
+    if (key.startsWith(RESERVED_KEY_PREFIX)) return undefined;
+    const entry = await store.getWithMetaAsync(key);
+    return entry && { key, ...entry };
+  };
+
+  /**
+   * List the keys matching `options`, leaving out reserved ones. With a limit,
+   * the listing is repeated with a larger one until enough visible keys are found.
+   */
+  const listKeys = async (options: ListOptions): Promise<string[]> => {
+    for (let hidden = 0; ; ) {
+      const limit = options.limit === undefined ? undefined : options.limit + hidden;
+      const keys = await store.keysAsync({ ...options, limit });
+      const visible = keys.filter((key) => !key.startsWith(RESERVED_KEY_PREFIX));
+      if (limit === undefined || keys.length < limit || visible.length >= options.limit!) {
+        return visible.slice(0, options.limit);
+      }
+      hidden = keys.length - visible.length;
+    }
+  };
+
+  /**
+   * Store `value` and return its new revision. Conditional writes (with a
+   * `check` of the current revision) go through `update()`, which retries if
+   * the key changes between the check and the write.
+   */
+  const put = async (
+    key: string,
+    value: unknown,
+    setOptions: SetOptions<unknown>,
+    check?: RevisionCheck
+  ): Promise<number> => {
+    const validated = validate(key, value);
+    if (!check) {
+      return (await store.setWithMetaAsync(key, validated, setOptions)).revision;
+    }
+
+    let revision = 0;
+    await store.update(key, async () => {
+      revision = (await store.getWithMetaAsync(key))?.revision ?? 0;
+      check(revision);
+      return validated;
+    }, setOptions);
+    return revision + 1;
+  };
+
+  /**
+   * Delete `key` and return whether it existed. For a conditional delete the
+   * store checks the revision again right before deleting, so a write racing
+   * with the request makes it fail instead of being lost.
+   */
+  const remove = async (key: string, check?: RevisionCheck): Promise<boolean> => {
+    checkKey(key);
+    const revision = (await store.getWithMetaAsync(key))?.revision ?? 0;
+    check?.(revision);
+    if (revision === 0) return false;
+    await store.deleteAsync(key, check ? { expectedRevision: revision } : undefined);
+    return true;
+  };
+
+  /**
+   * Apply a batch's writes. Eager stores apply them in one transaction, so
+   * either all of them or none are applied; lazy stores, which have no
+   * transactions, apply them one by one and stop at the first failure.
+   */
+  const writeBatch = async (batch: Omit<ParsedBatch, "get">): Promise<Omit<KvBatchResponse, "entries">> => {
+    const revisions: Record<string, number> = {};
+    const deleted: string[] = [];
+    const internal = Object.entries(batch.internal).map(
+      ([name, value]): [string, unknown] => [internalKey(batch.client!, name), value]
+    );
+
+    if (store.getMode() === "lazy") {
+      for (const [key, value] of internal) {
+        if (value === null) await store.deleteAsync(key);
+        else await store.setAsync(key, value);
+      }
+      for (const { key, value, revision, ...setOptions } of batch.set) {
+        revisions[key] = await put(key, value, setOptions, revisionCheck(key, revision));
+      }
+      for (const { key, revision } of batch.delete) {
+        if (await remove(key, revisionCheck(key, revision))) deleted.push(key);
+      }
+      return { revisions, deleted };
+    }
+
+    const sets = batch.set.map((entry) => ({ ...entry, value: validate(entry.key, entry.value) }));
+    for (const { key } of batch.delete) checkKey(key);
+    // The transaction rejects if a key changes after it was written here, so
+    // the revisions checked below still hold when the batch is committed.
+    await store.transaction((tx) => {
+      for (const { key, value, revision, ...setOptions } of sets) {
+        const current = store.getRevision(key);
+        if (revision !== undefined) checkRevision(key, revision, current);
+        tx.set(key, value, setOptions);
+        revisions[key] = current + 1;
+      }
+      for (const { key, revision } of batch.delete) {
+        if (revision !== undefined) checkRevision(key, revision, store.getRevision(key));
+        if (tx.has(key)) deleted.push(key);
+        tx.delete(key);
+      }
+      for (const [key, value] of internal) {
+        if (value === null) tx.delete(key);
+        else tx.set(key, value);
+      }
+    });
+    return { revisions, deleted };
+  };
+
+  const handleKey = async (request: Request, key: string, url: URL): Promise<Response> => {
+    switch (request.method) {
+      case "GET": {
+        const entry = await readEntry(key);
+        if (!entry) return json(404, { error: `Key "${key}" not found` });
+        const etag = formatEtag(entry.revision);
+        const ifNoneMatch = parseCondition(request.headers.get("If-None-Match"));
+        if (ifNoneMatch && matches(ifNoneMatch, entry.revision)) {
+          return new Response(null, { status: 304, headers: { ETag: etag } });
+        }
+        return json(200, entry.value, { ETag: etag });
+      }
+      case "PUT": {
+        const revision = await put(key, await readJson(request), parseSetOptions(url), preconditionCheck(key, request));
+        return json(revision === 1 ? 201 : 200, { revision }, { ETag: formatEtag(revision) });
+      }
+      case "DELETE": {
+        const removed = await remove(key, preconditionCheck(key, request));
+        return removed ? new Response(null, { status: 204 }) : json(404, { error: `Key "${key}" not found` });
+      }
+      default:
+        return json(405, { error: `Method ${request.method} not allowed` }, { Allow: "GET, PUT, DELETE" });
+    }
+  };
+
+  const batchResponses = new Map<string, Promise<StoredResponse>>();
+
+  /**
+   * Run a request at most once per idempotency key and answer repeats with its
+   * response. Server errors are not kept, so a repeat runs the request again.
+   */
+  const once = async (key: string, run: () => Promise<Response>): Promise<Response> => {
+    let stored = batchResponses.get(key);
+    if (!stored) {
+      stored = run()
+        .catch(errorResponse)
+        .then(async (response) => ({ status: response.status, body: await response.text() }));
+      batchResponses.set(key, stored);
+      if (batchResponses.size > IDEMPOTENCY_CACHE_SIZE) {
+        batchResponses.delete(batchResponses.keys().next().value!);
+      }
+    }
+    const { status, body } = await stored;
+    if (status >= 500 && batchResponses.get(key) === stored) batchResponses.delete(key);
+    return new Response(body, { status, headers: { "Content-Type": "application/json" } });
+  };
+
+  const runBatch = async (request: Request): Promise<Response> => {
+    const batch = parseBatch(await readJson(request));
+    const result = await writeBatch(batch);
+    const entries: KvHttpEntry[] = [];
+    for (const key of batch.get) {
+      const entry = await readEntry(key);
+      if (entry) entries.push(entry);
+    }
+    return json(200, { ...result, entries } satisfies KvBatchResponse);
+  };
+
+  const handleCollection = async (request: Request, url: URL): Promise<Response> => {
+    switch (request.method) {
+      case "GET": {
+        const entries: KvHttpEntry[] = [];
+        for (const key of await listKeys(parseListOptions(url))) {
+          const entry = await readEntry(key);
+          if (entry) entries.push(entry);
+        }
+        return json(200, { entries });
+      }
+      case "POST": {
+        const idempotencyKey = request.headers.get("Idempotency-Key");
+        return idempotencyKey === null ? await runBatch(request) : await once(idempotencyKey, () => runBatch(request));
+      }
+      default:
+        return json(405, { error: `Method ${request.method} not allowed` }, { Allow: "GET, POST" });
+    }
+  };
+
+  const handleInternal = async (request: Request, url: URL): Promise<Response> => {
+    if (request.method !== "GET") {
+      return json(405, { error: `Method ${request.method} not allowed` }, { Allow: "GET" });
+    }
+    const prefix = internalKey(parseClient(url.searchParams.get("client") ?? undefined), "");
+    const internal: Record<string, unknown> = {};
+    for (const key of await store.keysAsync({ prefix })) {
+      const value = await store.getAsync(key);
+      if (value !== undefined) internal[key.slice(prefix.length)] = value;
+    }
+    return json(200, { internal });
+  };
+
+  const handleBackups = async (request: Request, path: string): Promise<Response> => {
+    if (path === "" || path === "/") {
+      switch (request.method) {
+        case "GET":
+          return json(200, { backups: await store.listBackups() });
+        case "POST": {
+          const info = await store.createBackup();
+          return info
+            ? json(201, info)
+            : json(501, { error: "The store's adapter does not support backups" });
+        }
+        default:
+          return json(405, { error: `Method ${request.method} not allowed` }, { Allow: "GET, POST" });
+      }
+    }
+
+    const match = /^\/([^/]+)\/(verify|restore)$/.exec(path);
+    if (!match) return json(404, { error: "Not found" });
+    if (request.method !== "POST") {
+      return json(405, { error: `Method ${request.method} not allowed` }, { Allow: "POST" });
+    }
+    const id = decodeKey(match[1]);
+    if (match[2] === "verify") {
+      return json(200, { valid: await store.verifyBackup(id) });
+    }
+    const text = await request.text();
+    const body = text === "" ? {} : parseJson(text);
+    await store.restoreBackup(id, { verify: (body as { verify?: unknown } | null)?.verify !== false });
+    return new Response(null, { status: 204 });
+  };
+
+  return async (request) => {
+    try {
+      if (authorize && !(await authorize(request))) {
+        return json(401, { error: "Unauthorized" }, { "WWW-Authenticate": "Bearer" });
+      }
+
+      const url = new URL(request.url);
+      if (url.pathname === basePath || url.pathname === `${basePath}/`) {
+        return await handleCollection(request, url);
+      }
+      if (url.pathname === basePath + INTERNAL_PATH) {
+        return await handleInternal(request, url);
+      }
+      const backupsPath = basePath + BACKUPS_PATH;
+      if (options.backups && (url.pathname === backupsPath || url.pathname.startsWith(`${backupsPath}/`))) {
+        return await handleBackups(request, url.pathname.slice(backupsPath.length));
+      }
+      if (url.pathname.startsWith(`${basePath}/`)) {
+        return await handleKey(request, decodeKey(url.pathname.slice(basePath.length + 1)), url);
+      }
+      return json(404, { error: "Not found" });
+    } catch (err) {
+      return errorResponse(err);
+    }
+  };
+}
+
+function tokenCheck(
+  expected: NonNullable<KvHttpHandlerOptions["authToken"]>
+): (request: Request) => Promise<boolean> {
+  return async (request) => {
+    const match = /^Bearer\s+(.+)$/i.exec(request.headers.get("Authorization") ?? "");
+    if (!match) return false;
+    const token = match[1].trim();
+    if (typeof expected === "function") return expected(token, request);
+
+    const given = new TextEncoder().encode(token);
+    const wanted = new TextEncoder().encode(expected);
+    return given.byteLength === wanted.byteLength && timingSafeEqual(given, wanted);
+  };
+}
+
+function errorResponse(err: unknown): Response {
+  if (err instanceof HttpError) return json(err.status, { error: err.message });
+  if (err instanceof RevisionConflictError) {
+    const { message, key, expectedRevision, actualRevision } = err;
+    return json(412, { error: message, key, expectedRevision, actualRevision });
+  }
+  if (err instanceof WriteVetoedError) return json(409, { error: err.message });
+  if (err instanceof StoreClosedError) return json(503, { error: err.message });
+  if (err instanceof BackupVerificationError) return json(422, { error: err.message });
+  console.error("KV HTTP request failed:", err);
+  return json(500, { error: "Internal server error" });
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  return parseJson(await request.text());
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+}
+
+function decodeKey(encoded: string): string {
+  let key: string;
+  try {
+    key = decodeURIComponent(encoded);
+  } catch {
+    throw new HttpError(400, "Invalid key encoding");
+  }
+  if (key === "") throw new HttpError(404, "Not found");
+  return key;
+}
+
+function checkKey(key: string): void {
+  if (key.startsWith(RESERVED_KEY_PREFIX)) {
+    throw new HttpError(400, `Keys starting with "${RESERVED_KEY_PREFIX}" are reserved`);
+  }
+}
+
+function formatEtag(revision: number): string {
+  return `"${revision}"`;
+}
+
+/**
+ * Parse `*` or a list of (possibly weak) entity tags. Tags that are not
+ * revisions are kept as NaN, which never matches.
+ */
+function parseCondition(header: string | null): RevisionCondition | undefined {
+  if (header === null) return undefined;
+  if (header.trim() === "*") return "*";
+  return header.split(",").map((tag) => {
+    const match = /^\s*(?:W\/)?"(\d+)"\s*$/.exec(tag);
+    return match ? Number(match[1]) : NaN;
+  });
+}
+
+function matches(condition: RevisionCondition, revision: number): boolean {
+  if (revision === 0) return false;
+  return condition === "*" || condition.includes(revision);
+}
+
+/**
+ * The check of a request's `If-Match` and `If-None-Match` headers, if it has any.
+ */
+function preconditionCheck(key: string, request: Request): RevisionCheck | undefined {
+  const ifMatch = parseCondition(request.headers.get("If-Match"));
+  const ifNoneMatch = parseCondition(request.headers.get("If-None-Match"));
+  if (ifMatch === undefined && ifNoneMatch === undefined) return undefined;
+  return (revision) => {
+    if ((ifMatch && !matches(ifMatch, revision)) || (ifNoneMatch && matches(ifNoneMatch, revision))) {
+      throw new HttpError(412, `Precondition failed for key "${key}" at revision ${revision}`);
+    }
+  };
+}
+
+/**
+ * The check of a batch entry's `revision`, if it has one.
+ */
+function revisionCheck(key: string, expected: number | undefined): RevisionCheck | undefined {
+  return expected === undefined ? undefined : (revision) => checkRevision(key, expected, revision);
+}
+
+function checkRevision(key: string, expected: number, actual: number): void {
+  if (expected !== actual) throw new RevisionConflictError(key, expected, actual);
+}
+
+function parseNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const number = typeof value === "string" && value !== "" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number) || number < 0) {
+    throw new HttpError(400, `${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+function parseSetOptions(url: URL): SetOptions<unknown> {
+  return parseExpiration(url.searchParams.get("ttlMs"), url.searchParams.get("expiresAt"));
+}
+
+/**
+ * Parse a write's `ttlMs` and `expiresAt`, rejecting expirations that are not in the future.
+ */
+function parseExpiration(ttlValue: unknown, expiresAtValue: unknown): Pick<SetOptions<unknown>, "ttlMs" | "expiresAt"> {
+  const options: Pick<SetOptions<unknown>, "ttlMs" | "expiresAt"> = {};
+  const ttlMs = parseNumber(ttlValue, "ttlMs");
+  const expiresAt = parseNumber(expiresAtValue, "expiresAt");
+  if (ttlMs !== undefined) {
+    if (ttlMs === 0) throw new HttpError(400, "ttlMs must be a positive number");
+    options.ttlMs = ttlMs;
+  }
+  if (expiresAt !== undefined) {
+    if (expiresAt <= Date.now()) throw new HttpError(400, "expiresAt must be in the future");
+    options.expiresAt = expiresAt;
+  }
+  return options;
+}
+
+function parseListOptions(url: URL): ListOptions {
+  const params = url.searchParams;
+  const options: ListOptions = {};
+  for (const name of ["prefix", "start", "end"] as const) {
+    const value = params.get(name);
+    if (value !== null) options[name] = value;
+  }
+  const limit = parseNumber(params.get("limit"), "limit");
+  if (limit !== undefined) {
+    if (!Number.isInteger(limit)) throw new HttpError(400, "limit must be a non-negative integer");
+    options.limit = limit;
+  }
+  const reverse = params.get("reverse");
+  if (reverse !== null) options.reverse = reverse === "" || reverse === "true" || reverse === "1";
+  return options;
+}
+
+function parseBatch(body: unknown): ParsedBatch {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Batch request body must be an object");
+  }
+  const { get = [], set = [], delete: del = [], internal = {}, client } = body as Record<string, unknown>;
+  if (!Array.isArray(get) || !get.every((key) => typeof key === "string")) {
+    throw new HttpError(400, '"get" must be an array of keys');
+  }
+  if (
+    typeof internal !== "object" ||
+    internal === null ||
+    Array.isArray(internal) ||
+    !Object.keys(internal).every((name) => name.startsWith(RESERVED_KEY_PREFIX))
+  ) {
+    throw new HttpError(400, `"internal" must be an object whose keys start with "${RESERVED_KEY_PREFIX}"`);
+  }
+  const batch: ParsedBatch = {
+    get,
+    internal: internal as Record<string, unknown>,
+    client: client === undefined && Object.keys(internal).length === 0 ? undefined : parseClient(client),
+    set: parseBatchEntries(set, "set").map((entry) => {
+      if (!("value" in entry)) throw new HttpError(400, `"set" entry for key "${entry.key}" has no value`);
+      const parsed: Required<KvBatchRequest>["set"][number] = {
+        key: entry.key,
+        value: entry.value,
+        ...parseExpiration(entry.ttlMs, entry.expiresAt),
+      };
+      const revision = parseRevision(entry.revision);
+      if (revision !== undefined) parsed.revision = revision;
+      return parsed;
+    }),
+    delete: parseBatchEntries(del, "delete").map((entry) => {
+      const revision = parseRevision(entry.revision);
+      return revision === undefined ? { key: entry.key } : { key: entry.key, revision };
+    }),
+  };
+
+  // Revisions are checked against the store, so a second write to a key could not see the first
+  const written = new Set<string>();
+  for (const { key } of [...batch.set, ...batch.delete]) {
+    if (written.has(key)) throw new HttpError(400, `Key "${key}" is written more than once in the batch`);
+    written.add(key);
+  }
+  return batch;
+}
+
+function parseClient(client: unknown): string {
+  if (typeof client !== "string" || !CLIENT_ID_PATTERN.test(client)) {
+    throw new HttpError(400, '"client" must be a client id of letters, digits, ".", "_" and "-"');
+  }
+  return client;
+}
+
+/**
+ * The entry holding a client store's own key `name`.
+ */
+function internalKey(client: string, name: string): string {
+  return `${INTERNAL_KEY_PREFIX}${client}:${name}`;
+}
+
+function parseBatchEntries(entries: unknown, name: string): Array<Record<string, unknown> & { key: string }> {
+  if (
+    !Array.isArray(entries) ||
+    !entries.every((entry) => typeof entry === "object" && entry !== null && typeof entry.key === "string")
+  ) {
+    throw new HttpError(400, `"${name}" must be an array of objects with a string key`);
+  }
+  return entries;
+}
+
+function parseRevision(value: unknown): number | undefined {
+  const revision = parseNumber(value, "revision");
+  if (revision !== undefined && !Number.isInteger(revision)) {
+    throw new HttpError(400, "revision must be a non-negative integer");
+  }
+  return revision;
+}
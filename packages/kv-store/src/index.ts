@@ -1,18 +1,100 @@
 // Core exports
 export { KeyValueStore } from "./key-value-store";
+export { KeyValueCollection } from "./collection";
+export {
+  BackupVerificationError,
+  EncryptionKeyError,
+  KeyValueStoreError,
+  MigrationError,
+  RevisionConflictError,
+  ServerUnavailableError,
+  StoreClosedError,
+  StoreCorruptedError,
+  StoreLockedError,
+  WriteVetoedError,
+} from "./errors";
+export { ChangeWatcher } from "./watch";
+export { extendedJsonSerializer, jsonSerializer, msgpackSerializer } from "./serializers";
+export { createKvHttpHandler } from "./http-handler";
+export type { KvBatchRequest, KvBatchResponse, KvHttpEntry, KvHttpHandler, KvHttpHandlerOptions } from "./http-handler";
+
+// Adapter middleware
+export {
+  composeAdapter,
+  compressionMiddleware,
+  encryptionMiddleware,
+  interceptMiddleware,
+  keyPrefixMiddleware,
+  loggingMiddleware,
+  metricsMiddleware,
+  readOnlyMiddleware,
+  valueTransformMiddleware,
+} from "./middleware";
+export type {
+  AdapterMetrics,
+  LoggingMiddlewareOptions,
+  MethodInterceptor,
+  MethodMetrics,
+  ValueTransform,
+} from "./middleware";
 
 // Type exports
 export type {
+  AdapterBatch,
+  AdapterEntry,
+  AdapterMethodName,
+  AdapterMiddleware,
+  BackupInfo,
+  BackupOptions,
+  BackupRetention,
+  BeforeSetResult,
+  CacheOptions,
+  CacheStats,
+  ChangeEvent,
+  ChangeFeedBatch,
+  ChangeFeedEntry,
+  ChangeFeedOptions,
+  ChangeType,
+  CollectionHooks,
+  CollectionOptions,
+  CompressionAlgorithm,
+  CompressionOptions,
+  DeleteOptions,
+  DeleteReason,
+  EntryMetadata,
+  EntryWithMeta,
+  HookErrorContext,
+  HookMode,
+  HookName,
   KeyValueAdapter,
   KeyValueAdapterWithBackup,
   KeyValueStoreConfig,
   KeyValueStoreHooks,
+  KeyValueTransaction,
+  ListOptions,
+  Migration,
+  PersistenceMode,
+  RestoreBackupOptions,
+  Serializer,
+  SetOptions,
+  StoreMode,
   SupportsBackup,
+  SyncResult,
+  UpdateOptions,
   ValueValidator,
+  WatchOptions,
+  WatchTarget,
+  WriteBehindOptions,
 } from "./types";
 
 // Adapter exports
 export { SqliteAdapter } from "./adapters/sqlite-adapter";
-export type { SqliteAdapterConfig } from "./adapters/sqlite-adapter";
+export type { SqliteAdapterConfig, SqliteChangeFeedOptions } from "./adapters/sqlite-adapter";
 export { FileAdapter } from "./adapters/file-adapter";
-export type { FileAdapterConfig } from "./adapters/file-adapter";
\ No newline at end of file
+export type { FileAdapterConfig } from "./adapters/file-adapter";
+export { LogFileAdapter } from "./adapters/log-file-adapter";
+export type { LogFileAdapterConfig } from "./adapters/log-file-adapter";
+export { EncryptedAdapter } from "./adapters/encrypted-adapter";
+export type { EncryptedAdapterConfig, EncryptionKeyProvider } from "./adapters/encrypted-adapter";
+export { HttpAdapter } from "./adapters/http-adapter";
+export type { HttpAdapterConfig, HttpOfflineQueueOptions } from "./adapters/http-adapter";
@@ -1,4 +1,4 @@
-import { expect, test, describe, beforeEach } from "bun:test";
+import { expect, test, describe, beforeEach, afterEach } from "bun:test";
 import { KeyValueStore } from "./key-value-store";
 import { SqliteAdapter } from "./adapters/sqlite-adapter";
 import { FileAdapter } from "./adapters/file-adapter";
@@ -106,6 +106,10 @@ describe("KeyValueStore", () => {
       await store.init();
     });
 
+    afterEach(async () => {
+      await store.close();
+    });
+
     test("should persist data to file", async () => {
       store.set("key1", "value1");
       await store.sync();
@@ -116,6 +120,7 @@ describe("KeyValueStore", () => {
       await newStore.init();
 
       expect(newStore.get("key1")).toBe("value1");
+      await newStore.close();
     });
   });
 }); 
\ No newline at end of file
@@ -1,65 +1,546 @@
 import type {
+  AdapterEntry,
+  BackupInfo,
+  BackupOptions,
+  BackupRetention,
+  CacheStats,
+  ChangeEvent,
+  ChangeFeedEntry,
+  CollectionOptions,
+  DeleteOptions,
+  DeleteReason,
+  EntryMetadata,
+  EntryWithMeta,
   KeyValueAdapterWithBackup,
   KeyValueStoreConfig,
   KeyValueStoreHooks,
-  ValueValidator
+  KeyValueTransaction,
+  ListOptions,
+  Migration,
+  PersistenceMode,
+  RestoreBackupOptions,
+  Serializer,
+  SetOptions,
+  StoreMode,
+  SyncResult,
+  UpdateOptions,
+  ValueValidator,
+  WatchOptions,
+  WatchTarget
 } from "./types";
+import {
+  BackupVerificationError,
+  KeyValueStoreError,
+  MigrationError,
+  RevisionConflictError,
+  StoreClosedError
+} from "./errors";
+import { KeyValueCollection } from "./collection";
+import { HookRunner } from "./hooks";
+import { StagedTransaction, type StagedWrite } from "./transaction";
+import { ChangeWatcher } from "./watch";
+import { applyListOptions } from "./utils/key-range";
+import { LruIndex } from "./utils/lru-index";
+import { jsonSerializer } from "./serializers";
+
+const DEFAULT_EXPIRATION_SWEEP_INTERVAL_MS = 1000;
+const DEFAULT_UPDATE_RETRIES = 5;
+const DEFAULT_WRITE_BEHIND_DEBOUNCE_MS = 100;
+const DEFAULT_WRITE_BEHIND_MAX_DELAY_MS = 1000;
+const DEFAULT_WRITE_BEHIND_RETRY_DELAY_MS = 1000;
+const MAX_WRITE_BEHIND_RETRY_DELAY_MS = 30_000;
+const DEFAULT_CHANGE_FEED_POLL_MS = 500;
+
+/**
+ * Keys used by the store itself. They are persisted like any other entry
+ * but are hidden from enumeration.
+ */
+const INTERNAL_KEYS = new Set(["__version__", "__schema_version__"]);
 
 export class KeyValueStore {
   private memoryMap: Map<string, unknown> = new Map();
+  private metadata: Map<string, EntryMetadata> = new Map(); // revision/expiry info for every entry
+  private expiringKeys: Set<string> = new Set(); // keys with an expiration, checked by the sweeper
   private adapter?: KeyValueAdapterWithBackup;
-  private hooks: KeyValueStoreHooks;
+  private serializer: Serializer;
+  private hookRunner: HookRunner;
+  private watchers: Set<ChangeWatcher> = new Set();
   private version: number;
+  private dirtyKeys: Set<string> = new Set(); // keys set since the last successful sync
+  private tombstones: Set<string> = new Set(); // keys deleted since the last successful sync
+  private lastSyncedVersion: number;
+  private syncQueue: Promise<unknown> = Promise.resolve(); // serializes concurrent sync() calls
+  private transactionQueue: Promise<unknown> = Promise.resolve(); // serializes transactions
   private syncInterval?: ReturnType<typeof setInterval>; // used to keep track of setInterval ID
+  private sweepInterval?: ReturnType<typeof setInterval>;
+  private sweepIntervalMs: number;
+  private backupInterval?: ReturnType<typeof setInterval>;
+  private backupRetention?: BackupRetention;
+  private migrations: Migration[];
+  private cache?: LruIndex; // lazy mode only: recency and size of the cached entries
+  private cacheStats = { hits: 0, misses: 0, evictions: 0 };
+  private persistence: PersistenceMode;
+  private writeBehindDebounceMs: number;
+  private writeBehindMaxDelayMs: number;
+  private writeBehindTimer?: ReturnType<typeof setTimeout>;
+  private writeBehindDeadline?: number; // latest time the pending write-behind may run
+  private writeBehindRetryDelayMs: number;
+  private writeBehindFailures = 0; // consecutive failed write-behinds, for the retry backoff
+  private changeFeedPollMs?: number; // set when the change feed is enabled
+  private changeFeedInterval?: ReturnType<typeof setInterval>;
+  private changeSeq = 0; // newest change feed record applied
+  private closed = false;
+  private closing?: Promise<void>;
 
   constructor(config: KeyValueStoreConfig) {
     this.adapter = config.adapter;
-    this.hooks = config.hooks ?? {};
+    this.serializer = config.serializer ?? config.adapter?.serializer ?? jsonSerializer;
+    if (config.serializer && config.adapter?.serializer && config.serializer.name !== config.adapter.serializer.name) {
+      throw new Error(
+        `The store's serializer "${config.serializer.name}" does not match the adapter's "${config.adapter.serializer.name}"`
+      );
+    }
+    this.hookRunner = new HookRunner(config.hooks ?? {}, config.hookMode ?? "fire-and-forget", config.onHookError);
     this.version = config.enableVersioning ? 0 : -1;
+    this.lastSyncedVersion = this.version;
+    this.sweepIntervalMs = config.expirationSweepIntervalMs ?? DEFAULT_EXPIRATION_SWEEP_INTERVAL_MS;
+
+    if (config.mode === "lazy") {
+      if (!this.adapter) {
+        throw new Error("Lazy mode requires an adapter");
+      }
+      const { maxEntries, maxBytes } = config.cache ?? {};
+      if (maxEntries !== undefined && !(Number.isInteger(maxEntries) && maxEntries >= 1)) {
+        throw new Error("cache.maxEntries must be a positive integer");
+      }
+      if (maxBytes !== undefined && !(maxBytes > 0)) {
+        throw new Error("cache.maxBytes must be a positive number");
+      }
+      this.cache = new LruIndex({ maxEntries, maxBytes });
+    }
+
+    this.persistence = config.persistence
+      ?? (this.cache ? "write-through" : config.syncIntervalMs ? "interval" : "manual");
+    if (this.persistence === "interval" && !config.syncIntervalMs) {
+      throw new Error('The "interval" persistence mode requires syncIntervalMs');
+    }
+    if (this.cache && (this.persistence === "manual" || this.persistence === "interval")) {
+      throw new Error('Lazy mode requires the "write-through" or "write-behind" persistence mode');
+    }
+    this.writeBehindDebounceMs = config.writeBehind?.debounceMs ?? DEFAULT_WRITE_BEHIND_DEBOUNCE_MS;
+    this.writeBehindMaxDelayMs = config.writeBehind?.maxDelayMs ?? DEFAULT_WRITE_BEHIND_MAX_DELAY_MS;
+    if (!(this.writeBehindDebounceMs >= 0) || !(this.writeBehindMaxDelayMs >= this.writeBehindDebounceMs)) {
+      throw new Error("writeBehind.maxDelayMs must be at least writeBehind.debounceMs, and both non-negative");
+    }
+    this.writeBehindRetryDelayMs = config.writeBehind?.retryDelayMs ?? DEFAULT_WRITE_BEHIND_RETRY_DELAY_MS;
+    if (!(this.writeBehindRetryDelayMs > 0)) {
+      throw new Error("writeBehind.retryDelayMs must be positive");
+    }
+
+    if (config.changeFeed) {
+      if (!this.adapter?.readChanges || !this.adapter.latestChangeSeq) {
+        throw new Error("The change feed requires an adapter with readChanges() and latestChangeSeq()");
+      }
+      const pollIntervalMs = config.changeFeed === true ? undefined : config.changeFeed.pollIntervalMs;
+      if (pollIntervalMs !== undefined && !(pollIntervalMs > 0)) {
+        throw new Error("changeFeed.pollIntervalMs must be a positive number");
+      }
+      this.changeFeedPollMs = pollIntervalMs ?? DEFAULT_CHANGE_FEED_POLL_MS;
+    }
 
     // If a sync interval is provided, set up a periodic sync
     if (config.syncIntervalMs && this.adapter) {
       this.syncInterval = setInterval(() => {
-        void this.sync();
+        void this.queueSync();
       }, config.syncIntervalMs);
     }
+
+    const retention = config.backupRetention;
+    if (retention?.keepLast !== undefined && !(Number.isInteger(retention.keepLast) && retention.keepLast >= 1)) {
+      throw new Error("backupRetention.keepLast must be a positive integer");
+    }
+    if (retention?.maxAgeMs !== undefined && !(retention.maxAgeMs > 0)) {
+      throw new Error("backupRetention.maxAgeMs must be a positive number");
+    }
+    this.backupRetention = retention;
+
+    this.migrations = config.migrations ?? [];
+    this.migrations.forEach((migration, index) => {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new Error("Migration versions must be positive integers");
+      }
+      if (index > 0 && migration.version <= this.migrations[index - 1].version) {
+        throw new Error("Migrations must be listed in ascending version order");
+      }
+    });
+
+    // If a backup interval is provided, back up periodically
+    if (config.backupIntervalMs && this.adapter?.backup) {
+      this.backupInterval = setInterval(() => {
+        this.createBackup().catch((err) => console.error("Scheduled backup failed:", err));
+      }, config.backupIntervalMs);
+    }
   }
 
   /**
-   * Ensure that the adapter is initialized and load data from it.
+   * Ensure that the adapter is initialized, load data from it and apply any
+   * pending migrations. In lazy mode only the store's own keys are loaded.
+   * With `changeFeed`, polling for other processes' changes starts afterwards.
    */
   public async init(): Promise<void> {
+    this.assertOpen("init");
     if (this.adapter) {
       await this.adapter.init();
+      // Read the feed position first, so changes made while loading are picked up by the first poll
+      if (this.changeFeedPollMs !== undefined) {
+        this.changeSeq = await this.adapter.latestChangeSeq!();
+      }
+      await (this.cache ? this.loadInternalKeys() : this.loadFromAdapter());
+    }
+    await this.migrate();
+
+    if (this.changeFeedPollMs !== undefined && !this.changeFeedInterval) {
+      this.changeFeedInterval = setInterval(() => {
+        this.pollChanges().catch((err) => console.error("Reading the change feed failed:", err));
+      }, this.changeFeedPollMs);
+    }
+  }
+
+  /**
+   * Run the migrations newer than the stored schema version over every entry.
+   * All upgraded values and the new schema version are computed first and then
+   * written in one batch, so a failing step leaves both memory and the adapter
+   * untouched.
+   */
+  private async migrate(): Promise<void> {
+    if (this.migrations.length === 0) return;
+
+    const fromVersion = this.getSchemaVersion();
+    const toVersion = this.migrations[this.migrations.length - 1].version;
+    if (fromVersion > toVersion) {
+      throw new MigrationError(
+        fromVersion,
+        undefined,
+        new Error(`stored schema version ${fromVersion} is newer than the latest migration (${toVersion})`)
+      );
+    }
+    if (fromVersion === toVersion) return;
+
+    // Lazy mode: every entry has to be upgraded, so read them all once
+    if (this.cache) await this.loadFromAdapter();
+
+    const upgraded = new Map<string, unknown>();
+    for (const migration of this.migrations) {
+      if (migration.version <= fromVersion) continue;
+      for (const [key, value] of this.liveEntries()) {
+        const current = upgraded.has(key) ? upgraded.get(key) : value;
+        let next: unknown;
+        try {
+          next = await migration.up(key, current);
+          if (next !== undefined) {
+            this.prepareSet(key, next);
+          }
+        } catch (err) {
+          throw new MigrationError(migration.version, key, err);
+        }
+        if (next !== undefined) {
+          upgraded.set(key, next);
+        }
+      }
+    }
+
+    const nextMeta = new Map<string, EntryMetadata>();
+    for (const key of upgraded.keys()) {
+      nextMeta.set(key, this.nextMetadata(key, this.metadata.get(key)?.expiresAt));
+    }
+    const persistedVersion = this.version >= 0 ? this.version + 1 : undefined;
+
+    if (this.adapter) {
+      const sets: AdapterEntry[] = Array.from(upgraded, ([key, value]) => ({ key, value, meta: nextMeta.get(key) }));
+      sets.push({ key: "__schema_version__", value: toVersion });
+      if (persistedVersion !== undefined) {
+        sets.push({ key: "__version__", value: persistedVersion });
+      }
+      // A single setMany batch, so the upgrade is all or nothing on adapters that support it
+      await this.writeBatch(sets, []);
+    }
+
+    for (const [key, value] of upgraded) {
+      this.writeEntry(key, value, nextMeta.get(key)!);
+      if (this.adapter) this.dirtyKeys.delete(key);
+    }
+    this.memoryMap.set("__schema_version__", toVersion);
+    this.bumpVersion();
+    if (this.adapter && persistedVersion !== undefined) {
+      this.lastSyncedVersion = persistedVersion;
+    }
+    this.evictOverflow();
+
+    const migratedKeys = Array.from(upgraded.keys());
+    await this.settleHooks(
+      this.hookRunner.emit("onMigrate", undefined, (hooks) => hooks.onMigrate?.(fromVersion, toVersion, migratedKeys), true)
+    );
+  }
+
+  /**
+   * Load the adapter's contents (and the stored version) into memory.
+   */
+  private async loadFromAdapter(): Promise<void> {
+    if (this.adapter) {
+      // Load data from adapter if it supports listing its contents
+      const loadedData = this.adapter.all
+        ? await this.adapter.all()
+        : this.adapter.list
+          ? Object.fromEntries(await this.adapter.list())
+          : undefined;
+
+      if (loadedData) {
+        const loadedMetadata = (await this.adapter.allMetadata?.()) ?? {};
+        const now = Date.now();
 
-      // Load data from adapter if it supports the all() method
-      if ("all" in this.adapter && typeof this.adapter.all === "function") {
-        const loadedData = await this.adapter.all();
         for (const [k, v] of Object.entries(loadedData)) {
+          const meta = loadedMetadata[k];
+          if (meta?.expiresAt !== undefined && meta.expiresAt <= now) {
+            // Expired while we were offline: drop it and remove it from the adapter on next sync
+            this.tombstones.add(k);
+            continue;
+          }
           this.memoryMap.set(k, v);
+          if (INTERNAL_KEYS.has(k)) continue;
+          this.setMetadata(k, {
+            // Entries written before revisions were tracked start at revision 1
+            revision: meta?.revision ?? 1,
+            updatedAt: meta?.updatedAt ?? now,
+            expiresAt: meta?.expiresAt,
+          });
+          this.cache?.touch(k, entrySize(k, v, this.serializer));
         }
+        this.ensureSweeper();
+        this.loadVersion();
+      }
+    }
+  }
 
-        // Load version if it exists
-        const maybeVersion = loadedData["__version__"];
-        if (typeof maybeVersion === "number" && this.version >= 0) {
-          this.version = maybeVersion;
-        }
+  /**
+   * Lazy mode counterpart of `loadFromAdapter()`: only read the store's internal keys.
+   */
+  private async loadInternalKeys(): Promise<void> {
+    for (const key of INTERNAL_KEYS) {
+      const value = await this.adapter!.get(key);
+      if (value !== undefined) {
+        this.memoryMap.set(key, value);
       }
     }
+    this.loadVersion();
+  }
+
+  /**
+   * Take over the loaded version, if one was stored and versioning is enabled.
+   */
+  private loadVersion(): void {
+    const maybeVersion = this.memoryMap.get("__version__");
+    if (typeof maybeVersion === "number" && this.version >= 0) {
+      this.version = maybeVersion;
+      this.lastSyncedVersion = maybeVersion;
+    }
+  }
+
+  /**
+   * In lazy mode, read `key` from the adapter into the cache unless it is
+   * cached already, and count the hit or miss. Does nothing in eager mode.
+   */
+  private async loadKey(key: string): Promise<void> {
+    if (typeof key !== "string") {
+      throw new Error("Key must be a string");
+    }
+    if (!this.cache) return;
+
+    if (this.memoryMap.has(key)) {
+      this.cacheStats.hits++;
+      this.cache.touch(key);
+      return;
+    }
+    this.cacheStats.misses++;
+    // Deleted, but not removed from the adapter yet
+    if (this.tombstones.has(key)) return;
+
+    const value = await this.adapter!.get(key);
+    if (value === undefined) return;
+    const meta = await this.adapter!.getMetadata?.(key);
+
+    // The key may have been written or deleted while we were reading it
+    if (this.memoryMap.has(key) || this.tombstones.has(key)) return;
+    const now = Date.now();
+    if (meta?.expiresAt !== undefined && meta.expiresAt <= now) return;
+
+    this.memoryMap.set(key, value);
+    this.setMetadata(key, { revision: meta?.revision ?? 1, updatedAt: meta?.updatedAt ?? now, expiresAt: meta?.expiresAt });
+    this.cache.touch(key, entrySize(key, value, this.serializer));
+  }
+
+  /**
+   * Evict least recently used entries until the cache is within its limits.
+   * Entries with unsynced changes are kept.
+   */
+  private evictOverflow(): void {
+    if (!this.cache) return;
+    for (const key of this.cache.overflow((candidate) => this.dirtyKeys.has(candidate))) {
+      this.memoryMap.delete(key);
+      this.metadata.delete(key);
+      this.expiringKeys.delete(key);
+      this.cache.delete(key);
+      this.cacheStats.evictions++;
+    }
+    this.ensureSweeper();
+  }
+
+  /**
+   * Persist a mutation according to the persistence mode. Resolves once it is
+   * written in "write-through" mode; schedules a write in "write-behind" mode.
+   */
+  private persistChange(): Promise<void> {
+    if (!this.adapter) return Promise.resolve();
+    if (this.persistence === "write-through") {
+      return this.writePending();
+    }
+    if (this.persistence === "write-behind") {
+      this.scheduleWriteBehind();
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Like `persistChange()`, for the synchronous write methods: a failed write-through is logged.
+   */
+  private persistChangeInBackground(): void {
+    this.persistChange().catch((err) => console.error("Persisting changes failed:", err));
+  }
+
+  /**
+   * (Re)start the write-behind timer: it fires once no write happened for
+   * `debounceMs`, but never later than `maxDelayMs` after the first pending write.
+   */
+  private scheduleWriteBehind(): void {
+    // A retry is already scheduled after a failure; it will write this change too
+    if (this.writeBehindFailures > 0 && this.writeBehindTimer) return;
+
+    const now = Date.now();
+    this.writeBehindDeadline ??= now + this.writeBehindMaxDelayMs;
+    clearTimeout(this.writeBehindTimer);
+
+    const delay = Math.max(0, Math.min(this.writeBehindDebounceMs, this.writeBehindDeadline - now));
+    this.writeBehindTimer = setTimeout(() => this.runWriteBehind(), delay);
+  }
+
+  /**
+   * Write the pending changes. On failure, retry after `retryDelayMs`,
+   * doubling the delay with each consecutive failure.
+   */
+  private runWriteBehind(): void {
+    this.cancelWriteBehind();
+    this.writePending().catch((err) => {
+      console.error("Write-behind failed:", err);
+      if (this.closed) return;
+      const delay = Math.min(
+        this.writeBehindRetryDelayMs * 2 ** this.writeBehindFailures,
+        MAX_WRITE_BEHIND_RETRY_DELAY_MS
+      );
+      this.writeBehindFailures++;
+      this.writeBehindTimer = setTimeout(() => this.runWriteBehind(), delay);
+    });
+  }
+
+  private cancelWriteBehind(): void {
+    clearTimeout(this.writeBehindTimer);
+    this.writeBehindTimer = undefined;
+    this.writeBehindDeadline = undefined;
+  }
+
+  /**
+   * Sync, then shrink the lazy mode cache (synced entries can be evicted).
+   */
+  private async writePending(): Promise<void> {
+    try {
+      await this.queueSync();
+      this.writeBehindFailures = 0;
+    } finally {
+      this.evictOverflow();
+    }
+  }
+
+  /**
+   * Write every pending change to the adapter now, including any waiting for a
+   * scheduled write-behind.
+   */
+  public async flush(): Promise<void> {
+    this.assertOpen("flush");
+    this.cancelWriteBehind();
+    if (this.adapter) {
+      await this.writePending();
+    }
+  }
+
+  private assertOpen(method: string): void {
+    if (this.closed) {
+      throw new StoreClosedError(method);
+    }
+  }
+
+  /**
+   * Throw if the store is in lazy mode, where `method` cannot be answered from memory.
+   */
+  private assertEager(method: string, alternative: string): void {
+    if (this.cache) {
+      throw new KeyValueStoreError(`${method}() is not available in lazy mode; use ${alternative}() instead`);
+    }
+  }
+
+  /**
+   * Cache counters for lazy mode. All zero in eager mode.
+   */
+  public getCacheStats(): CacheStats {
+    return {
+      ...this.cacheStats,
+      entries: this.cache?.entries ?? 0,
+      bytes: this.cache?.bytes ?? 0,
+    };
   }
 
   /**
    * Get a value from in-memory store, optionally validating it with a supplied validator.
    * The validator can be from Zod, ArkType, or any custom function.
+   * Not available in lazy mode; use `getAsync()`.
    */
   public get<T = unknown>(
     key: string,
     options?: { validator?: ValueValidator<T> }
   ): T | undefined {
+    this.assertOpen("get");
+    this.assertEager("get", "getAsync");
+    return this.readValue(key, options);
+  }
+
+  /**
+   * Like `get()`, but in lazy mode reads the key from the adapter on a cache miss.
+   */
+  public async getAsync<T = unknown>(
+    key: string,
+    options?: { validator?: ValueValidator<T> }
+  ): Promise<T | undefined> {
+    this.assertOpen("getAsync");
+    await this.loadKey(key);
+    const value = this.readValue(key, options);
+    this.evictOverflow();
+    return value;
+  }
+
+  private readValue<T>(key: string, options?: { validator?: ValueValidator<T> }): T | undefined {
     if (typeof key !== "string") {
       throw new Error("Key must be a string");
     }
 
+    if (this.isExpired(key)) return undefined;
+
     const val = this.memoryMap.get(key);
 
     if (val === undefined) return undefined;
@@ -70,128 +551,1154 @@ export class KeyValueStore {
   }
 
   /**
-   * Set a value in the in-memory store. The value is validated prior to insertion if a validator is provided.
+   * Get a value along with its revision and timestamps, or undefined if the key does not exist.
    */
-  public set<T = unknown>(
+  public getWithMeta<T = unknown>(
     key: string,
-    value: T,
     options?: { validator?: ValueValidator<T> }
-  ): T {
-    if (typeof key !== "string") {
-      throw new Error("Key must be a string");
-    }
-
-    // Validate that value can be serialized
-    try {
-      JSON.stringify(value);
-    } catch (err) {
-      throw new Error("Value must be JSON serializable");
-    }
+  ): EntryWithMeta<T> | undefined {
+    this.assertOpen("getWithMeta");
+    this.assertEager("getWithMeta", "getWithMetaAsync");
+    return this.readWithMeta(key, options);
+  }
 
-    let validatedValue: T;
+  /**
+   * Like `getWithMeta()`, but in lazy mode reads the key from the adapter on a cache miss.
+   */
+  public async getWithMetaAsync<T = unknown>(
+    key: string,
+    options?: { validator?: ValueValidator<T> }
+  ): Promise<EntryWithMeta<T> | undefined> {
+    this.assertOpen("getWithMetaAsync");
+    await this.loadKey(key);
+    const entry = this.readWithMeta(key, options);
+    this.evictOverflow();
+    return entry;
+  }
 
-    if (options?.validator) {
-      validatedValue = options.validator(value);
-    } else {
-      validatedValue = value;
-    }
+  private readWithMeta<T>(key: string, options?: { validator?: ValueValidator<T> }): EntryWithMeta<T> | undefined {
+    if (!this.exists(key)) return undefined;
 
-    this.memoryMap.set(key, validatedValue);
+    const val = this.memoryMap.get(key);
+    const meta = this.metadata.get(key);
+    return {
+      value: options?.validator ? options.validator(val) : (val as T),
+      revision: meta?.revision ?? 1,
+      updatedAt: meta?.updatedAt ?? 0,
+      expiresAt: meta?.expiresAt,
+    };
+  }
 
-    // Increment store version if versioning is enabled
-    if (this.version >= 0) {
-      this.version++;
-    }
+  /**
+   * Return the current revision of a key, or 0 if it does not exist.
+   */
+  public getRevision(key: string): number {
+    this.assertOpen("getRevision");
+    this.assertEager("getRevision", "getWithMetaAsync");
+    return this.revisionOf(key);
+  }
 
-    // Trigger hook (wrapped in try/catch to prevent errors from bubbling up)
-    try {
-      void this.hooks.onUpdate?.(key, validatedValue);
-    } catch (err) {
-      console.error("onUpdate hook failed:", err);
-    }
+  private revisionOf(key: string): number {
+    if (!this.exists(key)) return 0;
+    return this.metadata.get(key)?.revision ?? 1;
+  }
 
-    return validatedValue;
+  /**
+   * Check whether a (non-expired) key exists in the store.
+   */
+  public has(key: string): boolean {
+    this.assertOpen("has");
+    this.assertEager("has", "hasAsync");
+    return this.exists(key);
   }
 
   /**
-   * Delete a key from the store in-memory.
+   * Like `has()`, but in lazy mode checks the adapter on a cache miss.
    */
-  public delete(key: string): void {
+  public async hasAsync(key: string): Promise<boolean> {
+    this.assertOpen("hasAsync");
+    await this.loadKey(key);
+    const found = this.exists(key);
+    this.evictOverflow();
+    return found;
+  }
+
+  private exists(key: string): boolean {
     if (typeof key !== "string") {
       throw new Error("Key must be a string");
     }
+    return this.memoryMap.has(key) && !this.isExpired(key);
+  }
 
-    if (this.memoryMap.has(key)) {
-      this.memoryMap.delete(key);
+  /**
+   * List the keys in the store in sorted order, optionally restricted to a prefix or range.
+   */
+  public keys(options?: ListOptions): string[] {
+    this.assertOpen("keys");
+    return this.entries(options).map(([key]) => key);
+  }
 
-      // Increment store version if versioning is enabled
-      if (this.version >= 0) {
-        this.version++;
-      }
+  /**
+   * List the entries in the store sorted by key, optionally restricted to a
+   * prefix or range. Expired and internal keys are skipped.
+   */
+  public entries<T = unknown>(options?: ListOptions): Array<[string, T]> {
+    this.assertOpen("entries");
+    this.assertEager("entries", "entriesAsync");
+    return applyListOptions(this.liveEntries(), options) as Array<[string, T]>;
+  }
 
-      // Trigger hook (wrapped in try/catch to prevent errors from bubbling up)
-      try {
-        void this.hooks.onDelete?.(key);
-      } catch (err) {
-        console.error("onDelete hook failed:", err);
-      }
-    }
+  /**
+   * Like `keys()`, but in lazy mode lists the keys stored in the adapter.
+   */
+  public async keysAsync(options?: ListOptions): Promise<string[]> {
+    this.assertOpen("keysAsync");
+    return (await this.entriesAsync(options)).map(([key]) => key);
   }
 
   /**
-   * Force a sync of the in-memory data to the adapter (if present).
-   * By default, this tries to write all key/value pairs to the adapter.
-   * For better performance with large datasets, you could track "dirty" keys only.
+   * Like `entries()`, but in lazy mode lists the adapter's entries after
+   * writing pending changes to it. Listed values are not cached.
    */
-  public async sync(): Promise<void> {
-    if (!this.adapter) return;
+  public async entriesAsync<T = unknown>(options?: ListOptions): Promise<Array<[string, T]>> {
+    this.assertOpen("entriesAsync");
+    if (!this.cache) return this.entries<T>(options);
 
-    // Store version if enabled
-    if (this.version >= 0) {
-      await this.adapter.set("__version__", this.version);
+    await this.sync();
+    const adapter = this.adapter!;
+    // Ask for a few more entries in case internal keys are among them
+    const limit = options?.limit !== undefined ? options.limit + INTERNAL_KEYS.size : undefined;
+    const listed = adapter.list
+      ? await adapter.list({ ...options, limit })
+      : applyListOptions(Object.entries((await adapter.all?.()) ?? {}), { ...options, limit });
+    return listed.filter(([key]) => !INTERNAL_KEYS.has(key)).slice(0, options?.limit) as Array<[string, T]>;
+  }
+
+  /**
+   * Number of (non-expired) entries in the store. Not available in lazy mode.
+   */
+  public get size(): number {
+    this.assertOpen("size");
+    this.assertEager("size", "keysAsync");
+    let count = 0;
+    for (const _ of this.liveEntries()) count++;
+    return count;
+  }
+
+  /**
+   * Delete every entry from the store. Hooks fire for each removed key, and a
+   * `beforeDelete` veto stops the clear at that key. Not available in lazy mode.
+   */
+  public clear(): void {
+    this.assertOpen("clear");
+    this.assertEager("clear", "deleteAsync");
+    for (const [key] of Array.from(this.liveEntries())) {
+      this.delete(key);
     }
+  }
 
-    for (const [key, value] of this.memoryMap.entries()) {
-      if (key !== "__version__") { // Skip internal version key
-        await this.adapter.set(key, value);
-      }
+  private *liveEntries(): Generator<[string, unknown]> {
+    const now = Date.now();
+    for (const entry of this.memoryMap) {
+      if (INTERNAL_KEYS.has(entry[0]) || this.isExpired(entry[0], now)) continue;
+      yield entry;
     }
   }
 
   /**
-   * Create a timestamped backup (if the adapter supports it).
+   * Set a value in the in-memory store. The value is validated prior to insertion if a validator is provided.
+   * Pass `ttlMs` or `expiresAt` to have the entry expire on its own.
+   * Not available in lazy mode; use `setAsync()`.
    */
-  public async createBackup(): Promise<void> {
-    if (!this.adapter?.backup) {
-      return;
-    }
+  public set<T = unknown>(
+    key: string,
+    value: T,
+    options?: SetOptions<T>
+  ): T {
+    this.assertOpen("set");
+    this.assertEager("set", "setAsync");
+    const oldValue = this.currentValue(key);
+    const candidate = this.hookRunner.beforeSet(key, value, oldValue) as T;
 
-    // If versioning is disabled, version will be -1. For backups, you might still want a stable reference.
-    const backupVersion = this.version >= 0 ? this.version : 0;
+    const { value: stored } = this.commitSet(key, candidate, oldValue, options);
+    this.persistChangeInBackground();
+    return stored;
+  }
+
+  /**
+   * Like `set()`, but supports async `beforeSet` hooks and, in "await" hook
+   * mode, resolves only after the `onUpdate` hooks have finished. In
+   * "write-through" persistence mode it also waits for the adapter write.
+   */
+  public async setAsync<T = unknown>(
+    key: string,
+    value: T,
+    options?: SetOptions<T>
+  ): Promise<T> {
+    this.assertOpen("setAsync");
+    return (await this.writeAsync(key, value, options)).value;
+  }
 
-    await this.adapter.backup();
+  /**
+   * Like `setAsync()`, but resolves with the entry as written, including the
+   * revision this write gave the key.
+   */
+  public async setWithMetaAsync<T = unknown>(
+    key: string,
+    value: T,
+    options?: SetOptions<T>
+  ): Promise<EntryWithMeta<T>> {
+    this.assertOpen("setWithMetaAsync");
+    return this.writeAsync(key, value, options);
+  }
 
-    try {
-      const timestamp = Date.now();
-      void this.hooks.onBackup?.(timestamp, backupVersion);
-    } catch (err) {
-      console.error("onBackup hook failed:", err);
+  private async writeAsync<T>(key: string, value: T, options?: SetOptions<T>): Promise<EntryWithMeta<T>> {
+    await this.loadKey(key);
+    const candidate = (await this.hookRunner.beforeSetAsync(key, value, this.currentValue(key))) as T;
+    await this.reloadIfEvicted(key);
+
+    // Re-read the old value, the key may have changed while the hooks ran
+    const { value: stored, meta, hooksDone } = this.commitSet(key, candidate, this.currentValue(key), options, true);
+    await this.persistChange();
+    await this.settleHooks(hooksDone);
+    return { value: stored, revision: meta.revision!, updatedAt: meta.updatedAt!, expiresAt: meta.expiresAt };
+  }
+
+  /**
+   * In lazy mode, load `key` again if it was evicted while we were waiting,
+   * so the following write sees its current revision.
+   */
+  private async reloadIfEvicted(key: string): Promise<void> {
+    if (this.cache && !this.memoryMap.has(key)) {
+      await this.loadKey(key);
     }
   }
 
   /**
-   * Return the current version of the store. If versioning is disabled, returns -1.
+   * Validate and store a value that already passed the `beforeSet` hooks, then fire `onUpdate`.
    */
-  public getVersion(): number {
-    return this.version;
+  private commitSet<T>(
+    key: string,
+    value: T,
+    oldValue: unknown,
+    options?: SetOptions<T>,
+    awaited: boolean = false
+  ): { value: T; meta: EntryMetadata; hooksDone: Promise<void> } {
+    const prepared = this.prepareSet(key, value, options);
+    const meta = this.nextMetadata(key, prepared.expiresAt);
+
+    this.writeEntry(key, prepared.value, meta);
+    this.bumpVersion();
+    const hooksDone = this.fireUpdate(key, prepared.value, oldValue, awaited);
+
+    return { value: prepared.value, meta, hooksDone };
   }
 
   /**
-   * Clear the sync interval if it's set. Clean up resources on shutdown.
+   * Set a value only if the key is still at `expectedRevision` (use 0 to require
+   * that the key does not exist yet). Returns the new revision, or throws a
+   * `RevisionConflictError` if the key was changed in the meantime.
+   * Not available in lazy mode; use `update()`.
    */
-  public dispose(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
+  public compareAndSet<T = unknown>(
+    key: string,
+    expectedRevision: number,
+    value: T,
+    options?: SetOptions<T>
+  ): number {
+    this.assertOpen("compareAndSet");
+    this.assertEager("compareAndSet", "update");
+    const revision = this.commitIfRevision(key, expectedRevision, value, options);
+    this.persistChangeInBackground();
+    return revision;
+  }
+
+  private commitIfRevision<T>(key: string, expectedRevision: number, value: T, options?: SetOptions<T>): number {
+    const actualRevision = this.revisionOf(key);
+    if (actualRevision !== expectedRevision) {
+      throw new RevisionConflictError(key, expectedRevision, actualRevision);
     }
+
+    const oldValue = this.currentValue(key);
+    const candidate = this.hookRunner.beforeSet(key, value, oldValue) as T;
+
+    return this.commitSet(key, candidate, oldValue, options).meta.revision!;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Read-modify-write a key. `fn` receives the current value (or undefined) and
+   * returns the new one. If the key changes while an async `fn` runs, it is
+   * retried with the fresh value up to `maxRetries` times before the
+   * `RevisionConflictError` is rethrown. In lazy mode the key is read from the
+   * adapter on a cache miss. In "write-through" persistence mode it resolves
+   * once the result is written to the adapter.
+   */
+  public async update<T = unknown>(
+    key: string,
+    fn: (current: T | undefined) => T | Promise<T>,
+    options?: UpdateOptions<T>
+  ): Promise<T> {
+    this.assertOpen("update");
+    const maxRetries = options?.maxRetries ?? DEFAULT_UPDATE_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.loadKey(key);
+      const current = this.readWithMeta<T>(key, { validator: options?.validator });
+      const next = await fn(current?.value);
+      await this.reloadIfEvicted(key);
+      try {
+        this.commitIfRevision(key, current?.revision ?? 0, next, options);
+        const stored = this.memoryMap.get(key) as T;
+        await this.persistChange();
+        return stored;
+      } catch (err) {
+        if (!(err instanceof RevisionConflictError) || attempt >= maxRetries) {
+          throw err;
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete a key from the store in-memory. Not available in lazy mode; use `deleteAsync()`.
+   */
+  public delete(key: string): void {
+    this.assertOpen("delete");
+    this.assertEager("delete", "deleteAsync");
+    if (typeof key !== "string") {
+      throw new Error("Key must be a string");
+    }
+
+    if (this.memoryMap.has(key)) {
+      this.hookRunner.beforeDelete(key, this.currentValue(key));
+      this.removeEntry(key, "delete");
+      this.persistChangeInBackground();
+    }
+  }
+
+  /**
+   * Like `delete()`, but supports async `beforeDelete` hooks and, in "await"
+   * hook mode, resolves only after the `onDelete` hooks have finished. In
+   * "write-through" persistence mode it also waits for the adapter write.
+   * With `expectedRevision`, the revision is checked right before the delete.
+   */
+  public async deleteAsync(key: string, options?: DeleteOptions): Promise<void> {
+    this.assertOpen("deleteAsync");
+    await this.loadKey(key);
+    if (!this.memoryMap.has(key)) {
+      this.checkExpectedRevision(key, options?.expectedRevision);
+      return;
+    }
+    await this.hookRunner.beforeDeleteAsync(key, this.currentValue(key));
+    await this.reloadIfEvicted(key);
+
+    // The key may have been changed or deleted while the hooks ran
+    this.checkExpectedRevision(key, options?.expectedRevision);
+    if (this.memoryMap.has(key)) {
+      const hooksDone = this.removeEntry(key, "delete", true);
+      await this.persistChange();
+      await this.settleHooks(hooksDone);
+    }
+  }
+
+  private checkExpectedRevision(key: string, expectedRevision: number | undefined): void {
+    if (expectedRevision === undefined) return;
+    const actualRevision = this.revisionOf(key);
+    if (actualRevision !== expectedRevision) {
+      throw new RevisionConflictError(key, expectedRevision, actualRevision);
+    }
+  }
+
+  /**
+   * Wait for hooks started with `awaited` set, if the hook mode asks for it.
+   */
+  private async settleHooks(hooksDone: Promise<unknown>): Promise<void> {
+    if (this.hookRunner.mode === "await") {
+      await hooksDone;
+    }
+  }
+
+  /**
+   * Run `fn` against a transaction handle and apply all of its writes at once.
+   * If `fn` throws, nothing is applied. Otherwise the writes are persisted to
+   * the adapter in one batch before they are applied to memory, the version is
+   * bumped once and hooks fire after the commit. Adapters without `writeBatch()`
+   * get the sets, then the deletes; if the deletes fail, the next sync restores
+   * the keys already written.
+   * If a key is written elsewhere after the transaction wrote it, up to the end
+   * of the commit, that write is kept: the transaction throws
+   * `RevisionConflictError` and nothing is applied.
+   * Transactions on the same store run one at a time. Not available in lazy mode.
+   */
+  public async transaction<R>(fn: (tx: KeyValueTransaction) => R | Promise<R>): Promise<R> {
+    this.assertOpen("transaction");
+    this.assertEager("transaction", "update");
+    const run = this.transactionQueue.then(() => this.runTransaction(fn));
+    // Keep the queue alive even if this transaction fails
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runTransaction<R>(fn: (tx: KeyValueTransaction) => R | Promise<R>): Promise<R> {
+    const tx = new StagedTransaction({
+      read: (key) => ({ found: this.exists(key), value: this.memoryMap.get(key) }),
+      revision: (key) => this.revisionOf(key),
+      prepare: (key, value, options) => this.prepareSet(
+        key,
+        this.hookRunner.beforeSet(key, value, this.currentValue(key)) as typeof value,
+        options
+      ),
+      beforeDelete: (key, oldValue) => this.hookRunner.beforeDelete(key, oldValue),
+    });
+
+    let result: R;
+    try {
+      result = await fn(tx);
+    } finally {
+      tx.close();
+    }
+
+    // Deleting a key that does not exist is a no-op, as with delete()
+    const changes = Array.from(tx.writes).filter(
+      ([key, write]) => write.type === "set" || this.memoryMap.has(key)
+    );
+    if (changes.length === 0) return result;
+
+    // Keys written elsewhere since the transaction staged them keep that write
+    let conflict = this.findConflict(changes);
+    if (conflict) throw conflict;
+
+    const persistedVersion = this.version >= 0 ? this.version + 1 : undefined;
+    const nextMeta = new Map<string, EntryMetadata>();
+    for (const [key, write] of changes) {
+      if (write.type === "set") {
+        nextMeta.set(key, this.nextMetadata(key, write.expiresAt));
+      }
+    }
+
+    if (this.adapter) {
+      const sets: AdapterEntry[] = [];
+      const deletes: string[] = [];
+      for (const [key, write] of changes) {
+        if (write.type === "set") {
+          sets.push({ key, value: write.value, meta: nextMeta.get(key) });
+        } else {
+          deletes.push(key);
+        }
+      }
+      if (persistedVersion !== undefined) {
+        sets.push({ key: "__version__", value: persistedVersion });
+      }
+      try {
+        await this.writeBatch(sets, deletes);
+      } catch (err) {
+        // Memory is left untouched. Without writeBatch() the adapter may hold
+        // part of the batch, so mark the keys to write memory's state back.
+        if (!this.adapter.writeBatch) {
+          this.rewriteFromMemory(changes.map(([key]) => key), persistedVersion);
+        }
+        await this.discardConflictingWrite(err);
+        throw err;
+      }
+
+      // Likewise for a key written while the batch was being persisted: the
+      // transaction is rolled back and the adapter gets memory's state again.
+      conflict = this.findConflict(changes);
+      if (conflict) {
+        this.rewriteFromMemory(changes.map(([key]) => key), persistedVersion);
+        this.persistChangeInBackground();
+        throw conflict;
+      }
+    }
+
+    const oldValues = new Map(changes.map(([key]) => [key, this.currentValue(key)]));
+    for (const [key, write] of changes) {
+      if (write.type === "set") {
+        this.writeEntry(key, write.value, nextMeta.get(key)!);
+      } else {
+        this.dropEntry(key);
+      }
+      if (this.adapter) {
+        // Already persisted by the batch above
+        this.dirtyKeys.delete(key);
+        this.tombstones.delete(key);
+      }
+    }
+    this.bumpVersion();
+    if (this.adapter && persistedVersion !== undefined) {
+      this.lastSyncedVersion = persistedVersion;
+    }
+
+    const hooksDone: Promise<void>[] = [];
+    for (const [key, write] of changes) {
+      if (write.type === "set") {
+        hooksDone.push(this.fireUpdate(key, write.value, oldValues.get(key), true));
+      } else {
+        hooksDone.push(this.fireDelete(key, "delete", oldValues.get(key), true));
+      }
+    }
+    await this.settleHooks(Promise.all(hooksDone));
+
+    return result;
+  }
+
+  /**
+   * A conflict for the first staged write whose key is no longer at the
+   * revision the transaction saw.
+   */
+  private findConflict(changes: Array<[string, StagedWrite]>): RevisionConflictError | undefined {
+    for (const [key, write] of changes) {
+      const actualRevision = this.revisionOf(key);
+      if (actualRevision !== write.baseRevision) {
+        return new RevisionConflictError(key, write.baseRevision, actualRevision);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Mark `keys` to be written back from memory by the next sync, after the
+   * adapter may have received a batch that memory does not hold.
+   */
+  private rewriteFromMemory(keys: string[], persistedVersion: number | undefined): void {
+    for (const key of keys) {
+      if (this.memoryMap.has(key)) {
+        this.dirtyKeys.add(key);
+      } else {
+        this.tombstones.add(key);
+      }
+    }
+    if (persistedVersion !== undefined) this.lastSyncedVersion = persistedVersion;
+  }
+
+  /**
+   * Validate a key/value pair the way `set()` does, without storing it.
+   */
+  private prepareSet<T>(key: string, value: T, options?: SetOptions<T>): { value: T; expiresAt?: number } {
+    if (typeof key !== "string") {
+      throw new Error("Key must be a string");
+    }
+
+    // Validate that value can be serialized
+    try {
+      this.serializer.serialize(value);
+    } catch (err) {
+      throw new Error(
+        this.serializer.name === jsonSerializer.name
+          ? "Value must be JSON serializable"
+          : `Value cannot be serialized with the "${this.serializer.name}" serializer`
+      );
+    }
+
+    const expiresAt = this.resolveExpiresAt(options);
+    const validatedValue = options?.validator ? options.validator(value) : value;
+
+    return { value: validatedValue, expiresAt };
+  }
+
+  /**
+   * Store a value in memory and mark it dirty. Does not bump the version or fire hooks.
+   */
+  private writeEntry(key: string, value: unknown, meta: EntryMetadata): void {
+    this.memoryMap.set(key, value);
+    this.dirtyKeys.add(key);
+    this.tombstones.delete(key);
+    this.setMetadata(key, meta);
+    this.cache?.touch(key, entrySize(key, value, this.serializer));
+  }
+
+  /**
+   * Metadata for the next write to `key`: the following revision and the current time.
+   */
+  private nextMetadata(key: string, expiresAt: number | undefined): EntryMetadata {
+    const meta: EntryMetadata = { revision: this.revisionOf(key) + 1, updatedAt: Date.now() };
+    if (expiresAt !== undefined) {
+      meta.expiresAt = expiresAt;
+    }
+    return meta;
+  }
+
+  private setMetadata(key: string, meta: EntryMetadata): void {
+    this.metadata.set(key, meta);
+    if (meta.expiresAt !== undefined) {
+      this.expiringKeys.add(key);
+      this.ensureSweeper();
+    } else {
+      this.expiringKeys.delete(key);
+    }
+  }
+
+  /**
+   * Remove a value from memory and record a tombstone. Does not bump the version or fire hooks.
+   */
+  private dropEntry(key: string): void {
+    this.memoryMap.delete(key);
+    this.metadata.delete(key);
+    this.expiringKeys.delete(key);
+    this.dirtyKeys.delete(key);
+    this.tombstones.add(key);
+    this.cache?.delete(key);
+  }
+
+  private removeEntry(key: string, reason: DeleteReason, awaited: boolean = false): Promise<void> {
+    // Expired values are no longer visible through get(), but watchers still get them
+    const oldValue = this.memoryMap.get(key);
+    this.dropEntry(key);
+    this.bumpVersion();
+    return this.fireDelete(key, reason, oldValue, awaited);
+  }
+
+  /**
+   * The value `get()` would return for `key`, without validation.
+   */
+  private currentValue(key: string): unknown {
+    return this.exists(key) ? this.memoryMap.get(key) : undefined;
+  }
+
+  private bumpVersion(): void {
+    // Increment store version if versioning is enabled
+    if (this.version >= 0) {
+      this.version++;
+    }
+  }
+
+  /**
+   * Fire `onUpdate` hooks and notify watchers. Hook errors never escape here;
+   * the returned promise only rejects for callers passing `awaited` in "await" mode.
+   */
+  private fireUpdate(key: string, value: unknown, oldValue: unknown, awaited: boolean = false): Promise<void> {
+    const hooksDone = this.hookRunner.emit("onUpdate", key, (hooks) => hooks.onUpdate?.(key, value, oldValue), awaited);
+    this.notifyWatchers({ type: "set", key, oldValue, newValue: value, version: this.version });
+    return hooksDone;
+  }
+
+  private fireDelete(key: string, reason: DeleteReason, oldValue: unknown, awaited: boolean = false): Promise<void> {
+    const hooksDone = this.hookRunner.emit("onDelete", key, (hooks) => hooks.onDelete?.(key, reason), awaited);
+    this.notifyWatchers({
+      type: reason === "expired" ? "expire" : "delete",
+      key,
+      oldValue,
+      newValue: undefined,
+      version: this.version,
+    });
+    return hooksDone;
+  }
+
+  private notifyWatchers(event: ChangeEvent): void {
+    for (const watcher of this.watchers) {
+      if (watcher.matches(event.key)) {
+        watcher.push(event);
+      }
+    }
+  }
+
+  private resolveExpiresAt<T>(options?: SetOptions<T>): number | undefined {
+    if (options?.expiresAt !== undefined) {
+      if (!Number.isFinite(options.expiresAt)) {
+        throw new Error("expiresAt must be a finite timestamp");
+      }
+      return options.expiresAt;
+    }
+    if (options?.ttlMs !== undefined) {
+      if (!Number.isFinite(options.ttlMs) || options.ttlMs <= 0) {
+        throw new Error("ttlMs must be a positive number");
+      }
+      return Date.now() + options.ttlMs;
+    }
+    return undefined;
+  }
+
+  private isExpired(key: string, now: number = Date.now()): boolean {
+    const expiresAt = this.metadata.get(key)?.expiresAt;
+    return expiresAt !== undefined && expiresAt <= now;
+  }
+
+  /**
+   * Start the expiration sweeper if any entry has an expiration, or stop it
+   * once none are left.
+   */
+  private ensureSweeper(): void {
+    if (this.expiringKeys.size > 0 && !this.sweepInterval) {
+      this.sweepInterval = setInterval(() => {
+        this.sweepExpired();
+      }, this.sweepIntervalMs);
+    } else if (this.expiringKeys.size === 0 && this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+  }
+
+  /**
+   * Remove every expired entry from memory, firing `onDelete` with the "expired" reason.
+   */
+  private sweepExpired(): void {
+    const now = Date.now();
+    let removed = false;
+    for (const key of Array.from(this.expiringKeys)) {
+      if (this.isExpired(key, now)) {
+        this.removeEntry(key, "expired");
+        removed = true;
+      }
+    }
+    this.ensureSweeper();
+    if (removed) {
+      this.persistChangeInBackground();
+    }
+  }
+
+  /**
+   * Force a sync of the in-memory data to the adapter (if present).
+   * Only keys that were set since the last successful sync are written, and
+   * keys deleted since then are removed from the adapter.
+   * Concurrent calls are queued so that each sync sees a consistent set of dirty keys.
+   */
+  public async sync(): Promise<SyncResult> {
+    this.assertOpen("sync");
+    return this.queueSync();
+  }
+
+  private queueSync(): Promise<SyncResult> {
+    const run = this.syncQueue.then(() => this.flushDirty());
+    // Keep the queue alive even if this sync fails
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Apply the writes other processes made since the last poll, firing
+   * `onUpdate`, `onDelete` and watchers for them. Runs every
+   * `changeFeed.pollIntervalMs` on its own; resolves to the number of keys
+   * that changed. Keys with local changes not yet synced keep the local value.
+   */
+  public async pollChanges(): Promise<number> {
+    this.assertOpen("pollChanges");
+    if (this.changeFeedPollMs === undefined) {
+      throw new KeyValueStoreError("pollChanges() requires the changeFeed option");
+    }
+    // Queued with syncs, so a remote value never lands between writing a batch and clearing it
+    const run = this.syncQueue.then(() => this.applyRemoteChanges());
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async applyRemoteChanges(): Promise<number> {
+    const adapter = this.adapter!;
+    const { changes, lastSeq, truncated } = await adapter.readChanges!(this.changeSeq);
+
+    // The last operation per key is all that matters
+    const pending = new Map<string, ChangeFeedEntry["op"]>();
+    if (truncated) {
+      // Changes were missed: compare every key we hold (and, in eager mode, the adapter has)
+      const storedKeys = this.cache
+        ? []
+        : adapter.all
+          ? Object.keys(await adapter.all())
+          : (await adapter.list?.())?.map(([key]) => key) ?? [];
+      for (const key of [...this.memoryMap.keys(), ...storedKeys]) {
+        pending.set(key, "set");
+      }
+    } else {
+      for (const { key, op } of changes) {
+        pending.set(key, op);
+      }
+    }
+
+    let applied = 0;
+    for (const [key, op] of pending) {
+      if (!INTERNAL_KEYS.has(key) && (await this.applyRemoteChange(key, op))) {
+        applied++;
+      }
+    }
+    this.changeSeq = lastSeq;
+    this.evictOverflow();
+    return applied;
+  }
+
+  /**
+   * Refresh `key` from the adapter after another process changed it. Returns
+   * whether anything changed. In lazy mode, keys that are not cached stay
+   * uncached and their events carry an undefined `oldValue`.
+   */
+  private async applyRemoteChange(key: string, op: ChangeFeedEntry["op"]): Promise<boolean> {
+    const hasLocalChange = () => this.dirtyKeys.has(key) || this.tombstones.has(key);
+    if (hasLocalChange()) return false;
+
+    const value = op === "set" ? await this.adapter!.get(key) : undefined;
+    const meta = value === undefined ? undefined : await this.adapter!.getMetadata?.(key);
+    // Written locally while we were reading
+    if (hasLocalChange()) return false;
+
+    const cached = this.memoryMap.has(key);
+    const oldValue = this.memoryMap.get(key);
+
+    if (value === undefined) {
+      if (!cached && !this.cache) return false;
+      this.memoryMap.delete(key);
+      this.metadata.delete(key);
+      this.expiringKeys.delete(key);
+      this.cache?.delete(key);
+      void this.fireDelete(key, "delete", oldValue);
+      return true;
+    }
+
+    const revision = meta?.revision ?? 1;
+    if (cached && this.metadata.get(key)?.revision === revision && this.sameValue(oldValue, value)) {
+      return false;
+    }
+    if (cached || !this.cache) {
+      this.memoryMap.set(key, value);
+      this.setMetadata(key, { revision, updatedAt: meta?.updatedAt ?? Date.now(), expiresAt: meta?.expiresAt });
+      this.cache?.touch(key, entrySize(key, value, this.serializer));
+    }
+    void this.fireUpdate(key, value, oldValue);
+    return true;
+  }
+
+  /**
+   * If the adapter rejected a write with a `RevisionConflictError` (another
+   * process wrote the key first), drop the local write and load the winner,
+   * so retries (e.g. by `update()`) start from the current value.
+   */
+  private async discardConflictingWrite(err: unknown): Promise<void> {
+    if (!(err instanceof RevisionConflictError)) return;
+    this.dirtyKeys.delete(err.key);
+    this.tombstones.delete(err.key);
+    // If it cannot be read now, the next conflict on the key tries again
+    await this.applyRemoteChange(err.key, "set").catch(() => undefined);
+  }
+
+  private sameValue(a: unknown, b: unknown): boolean {
+    const left = this.serializer.serialize(a);
+    const right = this.serializer.serialize(b);
+    if (typeof left === "string" || typeof right === "string") return left === right;
+    return Buffer.from(left).equals(right);
+  }
+
+  private async flushDirty(): Promise<SyncResult> {
+    const result: SyncResult = { written: [], deleted: [], versionWritten: false };
+    if (!this.adapter) return result;
+
+    // Take ownership of the current dirty keys and tombstones; anything changed
+    // while we are writing will be picked up by the next sync.
+    const pendingWrites = Array.from(this.dirtyKeys);
+    const pendingDeletes = Array.from(this.tombstones);
+    this.dirtyKeys.clear();
+    this.tombstones.clear();
+
+    const sets: AdapterEntry[] = [];
+    for (const key of pendingWrites) {
+      // Skip keys deleted since they were marked dirty, and the internal version key
+      if (INTERNAL_KEYS.has(key) || !this.memoryMap.has(key)) continue;
+      sets.push({ key, value: this.memoryMap.get(key), meta: this.metadata.get(key) });
+    }
+    // Skip keys that were re-created since they were deleted
+    const deletes = pendingDeletes.filter((key) => !this.memoryMap.has(key));
+
+    // Store version if enabled and it changed since the last sync
+    const version = this.version;
+    const writeVersion = version >= 0 && version !== this.lastSyncedVersion;
+    if (writeVersion) {
+      sets.push({ key: "__version__", value: version });
+    }
+
+    try {
+      await this.writeBatch(sets, deletes);
+    } catch (err) {
+      // Nothing from this batch is considered written; keep it pending for the
+      // next attempt unless it was changed again in the meantime.
+      for (const key of pendingWrites) {
+        if (!this.tombstones.has(key)) this.dirtyKeys.add(key);
+      }
+      for (const key of pendingDeletes) {
+        if (!this.dirtyKeys.has(key) && !this.memoryMap.has(key)) this.tombstones.add(key);
+      }
+      await this.discardConflictingWrite(err);
+      throw err;
+    }
+
+    if (writeVersion) {
+      this.lastSyncedVersion = version;
+      result.versionWritten = true;
+    }
+    result.written = sets.filter(({ key }) => !INTERNAL_KEYS.has(key)).map(({ key }) => key);
+    result.deleted = deletes;
+    return result;
+  }
+
+  /**
+   * Write a batch of sets and deletes to the adapter: atomically with its
+   * `writeBatch()` if it has one, otherwise the sets followed by the deletes,
+   * using its batch methods when available.
+   */
+  private async writeBatch(sets: AdapterEntry[], deletes: string[]): Promise<void> {
+    const adapter = this.adapter;
+    if (!adapter) return;
+
+    if (adapter.writeBatch) {
+      if (sets.length > 0 || deletes.length > 0) {
+        await adapter.writeBatch({ sets, deletes });
+      }
+      return;
+    }
+
+    if (sets.length > 0) {
+      if (adapter.setMany) {
+        await adapter.setMany(sets);
+      } else {
+        for (const { key, value, meta } of sets) {
+          await adapter.set(key, value, meta);
+        }
+      }
+    }
+
+    if (deletes.length > 0) {
+      if (adapter.deleteMany) {
+        await adapter.deleteMany(deletes);
+      } else {
+        for (const key of deletes) {
+          await adapter.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Sync, then create a timestamped backup (if the adapter supports it) and
+   * prune old backups according to `backupRetention`. Pass `path` to write
+   * a one-off backup to a location of your choice instead.
+   */
+  public async createBackup(options?: BackupOptions): Promise<BackupInfo | undefined> {
+    this.assertOpen("createBackup");
+    if (!this.adapter?.backup) {
+      return undefined;
+    }
+
+    // Back up what the store holds, not just what was synced so far
+    await this.sync();
+
+    // If versioning is disabled, version will be -1. For backups, you might still want a stable reference.
+    const backupVersion = this.version >= 0 ? this.version : 0;
+
+    const info = (await this.adapter.backup(options)) ?? undefined;
+    if (!options?.path) {
+      await this.pruneBackups();
+    }
+
+    const timestamp = Date.now();
+    await this.settleHooks(
+      this.hookRunner.emit("onBackup", undefined, (hooks) => hooks.onBackup?.(timestamp, backupVersion), true)
+    );
+    return info;
+  }
+
+  /**
+   * List the adapter's backups, newest first.
+   */
+  public async listBackups(): Promise<BackupInfo[]> {
+    this.assertOpen("listBackups");
+    return (await this.adapter?.listBackups?.()) ?? [];
+  }
+
+  /**
+   * Check a backup against the checksum recorded when it was made.
+   */
+  public async verifyBackup(id: string): Promise<boolean> {
+    this.assertOpen("verifyBackup");
+    if (!this.adapter?.verifyBackup) {
+      throw new KeyValueStoreError("The adapter does not support verifying backups");
+    }
+    return this.adapter.verifyBackup(id);
+  }
+
+  /**
+   * Replace the store's contents with a backup. The backup is verified first
+   * unless `verify` is false. Unsynced changes are discarded, the version is
+   * reloaded from the backup, and no hooks or watchers fire for the restored keys.
+   * Pending migrations are applied to the restored data.
+   */
+  public async restoreBackup(id: string, options?: RestoreBackupOptions): Promise<void> {
+    this.assertOpen("restoreBackup");
+    const run = this.syncQueue.then(() => this.runRestore(id, options));
+    // Keep the queue alive even if the restore fails
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runRestore(id: string, options?: RestoreBackupOptions): Promise<void> {
+    if (!this.adapter?.restoreBackup) {
+      throw new KeyValueStoreError("The adapter does not support restoring backups");
+    }
+    if (options?.verify !== false && !(await this.verifyBackup(id))) {
+      throw new BackupVerificationError(id);
+    }
+
+    await this.adapter.restoreBackup(id);
+
+    this.memoryMap.clear();
+    this.metadata.clear();
+    this.expiringKeys.clear();
+    this.dirtyKeys.clear();
+    this.tombstones.clear();
+    this.cache?.clear();
+    if (this.version >= 0) {
+      this.version = 0;
+      this.lastSyncedVersion = 0;
+    }
+    // The restored storage has its own change feed
+    if (this.changeFeedPollMs !== undefined) {
+      this.changeSeq = await this.adapter.latestChangeSeq!();
+    }
+    await (this.cache ? this.loadInternalKeys() : this.loadFromAdapter());
+    // Backups taken before an upgrade still need it
+    await this.migrate();
+  }
+
+  /**
+   * Delete backups that fall outside `backupRetention`. The newest one is always kept.
+   */
+  private async pruneBackups(): Promise<void> {
+    const retention = this.backupRetention;
+    if (!retention || !this.adapter?.listBackups || !this.adapter.deleteBackup) return;
+
+    const [, ...older] = await this.adapter.listBackups();
+    const cutoff = retention.maxAgeMs !== undefined ? Date.now() - retention.maxAgeMs : -Infinity;
+
+    for (const [index, backup] of older.entries()) {
+      // `older` starts at the second-newest backup
+      const beyondKeepLast = retention.keepLast !== undefined && index + 1 >= retention.keepLast;
+      if (beyondKeepLast || backup.createdAt < cutoff) {
+        await this.adapter.deleteBackup(backup.id);
+      }
+    }
+  }
+
+  /**
+   * Subscribe additional hooks after construction. They fire after the hooks
+   * passed in the config. Returns a function that unsubscribes them.
+   */
+  public addHooks(hooks: KeyValueStoreHooks): () => void {
+    this.assertOpen("addHooks");
+    return this.hookRunner.add(hooks);
+  }
+
+  /**
+   * Watch a key (or every key under `{ prefix }`) for changes. The returned
+   * watcher is an async iterable of change events; call `unsubscribe()` to stop.
+   */
+  public watch(target: WatchTarget, options?: WatchOptions): ChangeWatcher {
+    this.assertOpen("watch");
+    const watcher = new ChangeWatcher(target, (closed) => this.watchers.delete(closed), options);
+    this.watchers.add(watcher);
+    return watcher;
+  }
+
+  /**
+   * Get a typed view of the store scoped to the `name` key prefix. The
+   * collection's validator runs on every read and write made through it.
+   */
+  public collection<T>(name: string, options?: CollectionOptions<T>): KeyValueCollection<T> {
+    this.assertOpen("collection");
+    return new KeyValueCollection<T>(this, name, options);
+  }
+
+  /**
+   * The schema version of the stored data (0 if no migrations have run).
+   */
+  public getSchemaVersion(): number {
+    this.assertOpen("getSchemaVersion");
+    const stored = this.memoryMap.get("__schema_version__");
+    return typeof stored === "number" ? stored : 0;
+  }
+
+  /**
+   * Whether the store holds all of its data in memory ("eager") or caches it ("lazy").
+   */
+  public getMode(): StoreMode {
+    return this.cache ? "lazy" : "eager";
+  }
+
+  /**
+   * Return the current version of the store. If versioning is disabled, returns -1.
+   */
+  public getVersion(): number {
+    this.assertOpen("getVersion");
+    return this.version;
+  }
+
+  /**
+   * Clear the sync, backup, expiration and write-behind timers, then flush
+   * pending changes to the adapter so that shutting down loses no writes.
+   * Unlike `close()`, the store and its adapter stay usable.
+   */
+  public async dispose(): Promise<void> {
+    if (this.closed) return;
+    this.stopTimers();
+    await this.flush();
+  }
+
+  /**
+   * Stop all timers, write pending changes, end all watchers and close the
+   * adapter. Every later operation throws `StoreClosedError`. If the final
+   * sync fails, `close()` rejects and the store stays open (with its timers
+   * stopped), so nothing is lost and `close()` can be retried.
+   */
+  public close(): Promise<void> {
+    this.closing ??= this.runClose();
+    return this.closing;
+  }
+
+  private async runClose(): Promise<void> {
+    this.closed = true;
+    this.stopTimers();
+
+    try {
+      // Let queued transactions commit before the final sync
+      await this.transactionQueue;
+      if (this.adapter) {
+        await this.writePending();
+      }
+    } catch (err) {
+      this.closed = false;
+      this.closing = undefined;
+      throw err;
+    }
+
+    for (const watcher of Array.from(this.watchers)) {
+      watcher.unsubscribe();
+    }
+    await this.adapter?.close?.();
+  }
+
+  /**
+   * Close the store at the end of an `await using` block.
+   */
+  public async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  private stopTimers(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+    }
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+    if (this.backupInterval) {
+      clearInterval(this.backupInterval);
+    }
+    if (this.changeFeedInterval) {
+      clearInterval(this.changeFeedInterval);
+      this.changeFeedInterval = undefined;
+    }
+    this.cancelWriteBehind();
+  }
+}
+
+/**
+ * Approximate size of a cached entry: the length of its key plus its serialized value.
+ */
+function entrySize(key: string, value: unknown, serializer: Serializer): number {
+  const data = serializer.serialize(value);
+  return key.length + (typeof data === "string" ? data.length : data.byteLength);
+}
@@ -0,0 +1,148 @@
+import type { AdapterMethodName, AdapterMiddleware, KeyValueAdapterWithBackup } from "../types";
+
+type AdapterMethod = (...args: unknown[]) => Promise<unknown>;
+
+/**
+ * Every method an adapter may implement.
+ */
+export const ADAPTER_METHODS: readonly AdapterMethodName[] = [
+  "init",
+  "get",
+  "set",
+  "delete",
+  "setMany",
+  "deleteMany",
+  "writeBatch",
+  "all",
+  "list",
+  "allMetadata",
+  "getMetadata",
+  "latestChangeSeq",
+  "readChanges",
+  "close",
+  "backup",
+  "listBackups",
+  "verifyBackup",
+  "restoreBackup",
+  "deleteBackup",
+];
+
+/**
+ * Wrap `base` in `middlewares`. The first middleware is the outermost: it sees
+ * each call first and passes it on to the second, and so on down to `base`.
+ * Optional methods (`setMany`, `list`, `backup`, ...) stay optional: the
+ * composed adapter only has them if a middleware or `base` implements them.
+ */
+export function composeAdapter(
+  base: KeyValueAdapterWithBackup,
+  ...middlewares: AdapterMiddleware[]
+): KeyValueAdapterWithBackup {
+  return middlewares.reduceRight<KeyValueAdapterWithBackup>(
+    (next, middleware) => layer(next, middleware(next)),
+    base
+  );
+}
+
+function layer(next: KeyValueAdapterWithBackup, overrides: Partial<KeyValueAdapterWithBackup>): KeyValueAdapterWithBackup {
+  const adapter: Record<string, unknown> = {};
+  for (const method of ADAPTER_METHODS) {
+    const own = overrides[method] as AdapterMethod | undefined;
+    const inner = next[method] as AdapterMethod | undefined;
+    if (own) {
+      adapter[method] = own.bind(overrides);
+    } else if (inner) {
+      adapter[method] = inner.bind(next);
+    }
+  }
+  const serializer = overrides.serializer ?? next.serializer;
+  if (serializer) adapter.serializer = serializer;
+  return adapter as KeyValueAdapterWithBackup;
+}
+
+/**
+ * Called for every method call passing through `interceptMiddleware()`.
+ * `proceed()` calls the next adapter with the original arguments.
+ */
+export type MethodInterceptor = (
+  method: AdapterMethodName,
+  args: unknown[],
+  proceed: () => Promise<unknown>
+) => Promise<unknown>;
+
+/**
+ * Build a middleware that runs `intercept` around every method the next
+ * adapter implements. Useful for logging, metrics and tracing.
+ */
+export function interceptMiddleware(intercept: MethodInterceptor): AdapterMiddleware {
+  return (next) => {
+    const overrides: Record<string, AdapterMethod> = {};
+    for (const method of ADAPTER_METHODS) {
+      const inner = next[method] as AdapterMethod | undefined;
+      if (inner) {
+        overrides[method] = (...args) => intercept(method, args, () => inner.apply(next, args));
+      }
+    }
+    return overrides as Partial<KeyValueAdapterWithBackup>;
+  };
+}
+
+/**
+ * Converts values on their way to and from the next adapter.
+ */
+export type ValueTransform = {
+  encode(key: string, value: unknown): unknown | Promise<unknown>;
+  decode(key: string, stored: unknown): unknown | Promise<unknown>;
+};
+
+/**
+ * Build a middleware that encodes every value written (`set`, `setMany`,
+ * `writeBatch`) and decodes every value read (`get`, `all`, `list`).
+ */
+export function valueTransformMiddleware(transform: ValueTransform): AdapterMiddleware {
+  return (next) => {
+    const overrides: Partial<KeyValueAdapterWithBackup> = {
+      get: async (key) => {
+        const stored = await next.get(key);
+        return stored === undefined ? undefined : transform.decode(key, stored);
+      },
+      set: async (key, value, meta) => next.set(key, await transform.encode(key, value), meta),
+    };
+    if (next.setMany) {
+      overrides.setMany = async (entries) => {
+        const encoded = [];
+        for (const { key, value, meta } of entries) {
+          encoded.push({ key, value: await transform.encode(key, value), meta });
+        }
+        await next.setMany!(encoded);
+      };
+    }
+    if (next.writeBatch) {
+      overrides.writeBatch = async ({ sets, deletes }) => {
+        const encoded = [];
+        for (const { key, value, meta } of sets) {
+          encoded.push({ key, value: await transform.encode(key, value), meta });
+        }
+        await next.writeBatch!({ sets: encoded, deletes });
+      };
+    }
+    if (next.all) {
+      overrides.all = async () => {
+        const data: Record<string, unknown> = {};
+        for (const [key, stored] of Object.entries(await next.all!())) {
+          data[key] = await transform.decode(key, stored);
+        }
+        return data;
+      };
+    }
+    if (next.list) {
+      overrides.list = async (options) => {
+        const result: Array<[string, unknown]> = [];
+        for (const [key, stored] of await next.list!(options)) {
+          result.push([key, await transform.decode(key, stored)]);
+        }
+        return result;
+      };
+    }
+    return overrides;
+  };
+}
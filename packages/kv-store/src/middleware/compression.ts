@@ -0,0 +1,52 @@
+import { jsonSerializer } from "../serializers";
+import type { AdapterMiddleware, CompressionAlgorithm, CompressionOptions } from "../types";
+import { ValueCodec } from "../utils/value-codec";
+import { valueTransformMiddleware } from "./compose";
+
+/**
+ * Reserved property marking a compressed value, in the spirit of `__meta__`.
+ */
+const COMPRESSED_KEY = "__compressed__";
+
+/**
+ * Envelope "algorithm" of an uncompressed value that has its own `__compressed__`
+ * property, so it is not mistaken for a compressed one.
+ */
+const UNCOMPRESSED = "none";
+
+type CompressedValue =
+  | { [COMPRESSED_KEY]: CompressionAlgorithm; encoding?: string; data: string }
+  | { [COMPRESSED_KEY]: typeof UNCOMPRESSED; data: unknown };
+
+/**
+ * Compress large values for adapters without built-in `compression`. Values
+ * above the threshold are stored as `{ "__compressed__": "gzip", "data": "<base64>" }`;
+ * smaller ones, and data written before, are passed through unchanged. Objects
+ * with a `__compressed__` property of their own are wrapped as
+ * `{ "__compressed__": "none", "data": <value> }`.
+ */
+export function compressionMiddleware(options: CompressionOptions = {}): AdapterMiddleware {
+  return (next) => {
+    const codec = new ValueCodec(next.serializer ?? jsonSerializer, options);
+    return valueTransformMiddleware({
+      encode: (_key, value) => {
+        const { value: data, encoding, compression } = codec.toDocument(value);
+        if (compression === undefined) {
+          return isEnvelope(value) ? { [COMPRESSED_KEY]: UNCOMPRESSED, data: value } : value;
+        }
+        const compressed: CompressedValue = { [COMPRESSED_KEY]: compression, data: data as string };
+        if (encoding !== undefined) compressed.encoding = encoding;
+        return compressed;
+      },
+      decode: (_key, stored) => {
+        if (!isEnvelope(stored)) return stored;
+        if (stored[COMPRESSED_KEY] === UNCOMPRESSED) return stored.data;
+        return codec.fromDocument(stored.data, stored.encoding, stored[COMPRESSED_KEY]);
+      },
+    })(next);
+  };
+}
+
+function isEnvelope(value: unknown): value is CompressedValue {
+  return typeof value === "object" && value !== null && COMPRESSED_KEY in value;
+}
@@ -0,0 +1,10 @@
+import { EncryptedAdapter, type EncryptedAdapterConfig } from "../adapters/encrypted-adapter";
+import type { AdapterMiddleware } from "../types";
+
+/**
+ * Encrypt values (and optionally keys) on their way to the next adapter, as
+ * `EncryptedAdapter` does. Use `EncryptedAdapter` directly when you need `rotateKey()`.
+ */
+export function encryptionMiddleware(options: Omit<EncryptedAdapterConfig, "adapter">): AdapterMiddleware {
+  return (next) => new EncryptedAdapter({ ...options, adapter: next });
+}
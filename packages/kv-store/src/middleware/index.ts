@@ -0,0 +1,10 @@
+export { composeAdapter, interceptMiddleware, valueTransformMiddleware } from "./compose";
+export type { MethodInterceptor, ValueTransform } from "./compose";
+export { compressionMiddleware } from "./compression";
+export { encryptionMiddleware } from "./encryption";
+export { keyPrefixMiddleware } from "./key-prefix";
+export { loggingMiddleware } from "./logging";
+export type { LoggingMiddlewareOptions } from "./logging";
+export { metricsMiddleware } from "./metrics";
+export type { AdapterMetrics, MethodMetrics } from "./metrics";
+export { readOnlyMiddleware } from "./read-only";
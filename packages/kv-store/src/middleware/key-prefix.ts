@@ -0,0 +1,75 @@
+import { KeyValueStoreError } from "../errors";
+import type { AdapterMiddleware, EntryMetadata, KeyValueAdapterWithBackup } from "../types";
+
+/**
+ * Store every key under `prefix`, so several stores can share one adapter
+ * (e.g. one SQLite table) without seeing each other's keys. Listings only
+ * return this prefix's keys, with the prefix removed. Backups are passed
+ * through, so they cover the whole adapter: restoring one through a prefixed
+ * adapter replaces every prefix's data.
+ */
+export function keyPrefixMiddleware(prefix: string): AdapterMiddleware {
+  if (prefix === "") {
+    throw new KeyValueStoreError("keyPrefixMiddleware requires a non-empty prefix");
+  }
+  const strip = <V>(entries: Iterable<[string, V]>): Array<[string, V]> => {
+    const result: Array<[string, V]> = [];
+    for (const [key, value] of entries) {
+      if (key.startsWith(prefix)) result.push([key.slice(prefix.length), value]);
+    }
+    return result;
+  };
+
+  return (next) => {
+    const overrides: Partial<KeyValueAdapterWithBackup> = {
+      get: (key) => next.get(prefix + key),
+      set: (key, value, meta) => next.set(prefix + key, value, meta),
+      delete: (key) => next.delete(prefix + key),
+    };
+    if (next.setMany) {
+      overrides.setMany = (entries) => next.setMany!(entries.map((entry) => ({ ...entry, key: prefix + entry.key })));
+    }
+    if (next.deleteMany) {
+      overrides.deleteMany = (keys) => next.deleteMany!(keys.map((key) => prefix + key));
+    }
+    if (next.writeBatch) {
+      overrides.writeBatch = ({ sets, deletes }) =>
+        next.writeBatch!({
+          sets: sets.map((entry) => ({ ...entry, key: prefix + entry.key })),
+          deletes: deletes.map((key) => prefix + key),
+        });
+    }
+    if (next.list) {
+      overrides.list = async (options = {}) =>
+        strip(
+          await next.list!({
+            ...options,
+            prefix: prefix + (options.prefix ?? ""),
+            start: options.start === undefined ? undefined : prefix + options.start,
+            end: options.end === undefined ? undefined : prefix + options.end,
+          })
+        );
+    }
+    if (next.list || next.all) {
+      overrides.all = async () =>
+        Object.fromEntries(next.list ? strip(await next.list({ prefix })) : strip(Object.entries(await next.all!())));
+    }
+    if (next.allMetadata) {
+      overrides.allMetadata = async () =>
+        Object.fromEntries(strip<EntryMetadata>(Object.entries(await next.allMetadata!())));
+    }
+    if (next.getMetadata) {
+      overrides.getMetadata = (key) => next.getMetadata!(prefix + key);
+    }
+    if (next.readChanges) {
+      overrides.readChanges = async (afterSeq) => {
+        const batch = await next.readChanges!(afterSeq);
+        const changes = batch.changes
+          .filter((change) => change.key.startsWith(prefix))
+          .map((change) => ({ ...change, key: change.key.slice(prefix.length) }));
+        return { ...batch, changes };
+      };
+    }
+    return overrides;
+  };
+}
@@ -0,0 +1,36 @@
+import type { AdapterMiddleware } from "../types";
+import { interceptMiddleware } from "./compose";
+
+export type LoggingMiddlewareOptions = {
+  /**
+   * Receives one line per call. Defaults to `console.log`.
+   */
+  log?: (message: string) => void;
+  /**
+   * Prefix of each line, e.g. the adapter's name. Defaults to "kv-store".
+   */
+  label?: string;
+};
+
+/**
+ * Log every adapter call with its key (if any), duration and outcome. Values
+ * are never logged, since they may hold secrets.
+ */
+export function loggingMiddleware(options: LoggingMiddlewareOptions = {}): AdapterMiddleware {
+  const log = options.log ?? console.log;
+  const label = options.label ?? "kv-store";
+
+  return interceptMiddleware(async (method, args, proceed) => {
+    const target = typeof args[0] === "string" ? ` "${args[0]}"` : "";
+    const started = performance.now();
+    const elapsed = () => `${(performance.now() - started).toFixed(1)}ms`;
+    try {
+      const result = await proceed();
+      log(`[${label}] ${method}${target} ${elapsed()}`);
+      return result;
+    } catch (err) {
+      log(`[${label}] ${method}${target} failed after ${elapsed()}: ${err instanceof Error ? err.message : String(err)}`);
+      throw err;
+    }
+  });
+}
@@ -0,0 +1,33 @@
+import type { AdapterMethodName, AdapterMiddleware } from "../types";
+import { interceptMiddleware } from "./compose";
+
+export type MethodMetrics = {
+  calls: number;
+  errors: number;
+  totalMs: number;
+};
+
+/**
+ * Call counts and timings per adapter method, filled in by `metricsMiddleware()`.
+ */
+export type AdapterMetrics = Partial<Record<AdapterMethodName, MethodMetrics>>;
+
+/**
+ * Count calls, failures and time spent per method in `metrics`, which the
+ * caller keeps a reference to and can read or reset at any time.
+ */
+export function metricsMiddleware(metrics: AdapterMetrics): AdapterMiddleware {
+  return interceptMiddleware(async (method, _args, proceed) => {
+    const entry = (metrics[method] ??= { calls: 0, errors: 0, totalMs: 0 });
+    const started = performance.now();
+    entry.calls++;
+    try {
+      return await proceed();
+    } catch (err) {
+      entry.errors++;
+      throw err;
+    } finally {
+      entry.totalMs += performance.now() - started;
+    }
+  });
+}
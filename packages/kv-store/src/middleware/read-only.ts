@@ -0,0 +1,28 @@
+import { KeyValueStoreError } from "../errors";
+import type { AdapterMethodName, AdapterMiddleware } from "../types";
+
+const WRITE_METHODS: readonly AdapterMethodName[] = [
+  "set",
+  "delete",
+  "setMany",
+  "deleteMany",
+  "writeBatch",
+  "restoreBackup",
+  "deleteBackup",
+];
+
+/**
+ * Reject every write with a `KeyValueStoreError`, e.g. to open production data
+ * for inspection. Reads, listings and creating backups still work.
+ */
+export function readOnlyMiddleware(): AdapterMiddleware {
+  return (next) =>
+    Object.fromEntries(
+      WRITE_METHODS.filter((method) => next[method]).map((method) => [
+        method,
+        async () => {
+          throw new KeyValueStoreError(`Cannot call ${method}() on a read-only adapter`);
+        },
+      ])
+    );
+}
@@ -0,0 +1,97 @@
+import type { Serializer } from "../types";
+
+/**
+ * Key marking a tagged value. Plain objects that happen to have this key are
+ * wrapped in an "Object" tag, so they round-trip unchanged.
+ */
+const TYPE_KEY = "$type";
+
+type Tagged = { [TYPE_KEY]: string; value?: unknown };
+
+/**
+ * JSON with tagged objects for the types plain JSON loses: `Date`, `Map`,
+ * `Set`, `BigInt`, `Uint8Array`, `undefined` inside arrays and non-finite numbers.
+ * The output is still readable JSON, e.g. `{"$type":"Date","value":"2024-01-01T00:00:00.000Z"}`.
+ */
+export const extendedJsonSerializer: Serializer = {
+  name: "ejson",
+  format: "text",
+  serialize: (value) => JSON.stringify(toTagged(value)),
+  deserialize: (data) => fromTagged(JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data))),
+};
+
+function toTagged(value: unknown): unknown {
+  switch (typeof value) {
+    case "undefined":
+      return { [TYPE_KEY]: "undefined" };
+    case "bigint":
+      return { [TYPE_KEY]: "BigInt", value: value.toString() };
+    case "number":
+      return Number.isFinite(value) ? value : { [TYPE_KEY]: "Number", value: String(value) };
+    case "function":
+    case "symbol":
+      throw new TypeError(`Cannot serialize a ${typeof value}`);
+  }
+  if (value === null || typeof value !== "object") return value;
+
+  if (value instanceof Date) {
+    return { [TYPE_KEY]: "Date", value: value.toISOString() };
+  }
+  if (value instanceof Map) {
+    return { [TYPE_KEY]: "Map", value: Array.from(value, ([k, v]) => [toTagged(k), toTagged(v)]) };
+  }
+  if (value instanceof Set) {
+    return { [TYPE_KEY]: "Set", value: Array.from(value, toTagged) };
+  }
+  if (value instanceof Uint8Array) {
+    return { [TYPE_KEY]: "Uint8Array", value: Buffer.from(value).toString("base64") };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toTagged);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    // Like JSON, drop properties that are undefined
+    if (item !== undefined) result[key] = toTagged(item);
+  }
+  return TYPE_KEY in value ? { [TYPE_KEY]: "Object", value: result } : result;
+}
+
+function fromTagged(value: unknown): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(fromTagged);
+
+  if (TYPE_KEY in value) {
+    const tagged = value as Tagged;
+    switch (tagged[TYPE_KEY]) {
+      case "undefined":
+        return undefined;
+      case "BigInt":
+        return BigInt(tagged.value as string);
+      case "Number":
+        return Number(tagged.value);
+      case "Date":
+        return new Date(tagged.value as string);
+      case "Map":
+        return new Map((tagged.value as [unknown, unknown][]).map(([k, v]) => [fromTagged(k), fromTagged(v)]));
+      case "Set":
+        return new Set((tagged.value as unknown[]).map(fromTagged));
+      case "Uint8Array":
+        return new Uint8Array(Buffer.from(tagged.value as string, "base64"));
+      case "Object":
+        return fromObject(tagged.value as Record<string, unknown>);
+      default:
+        throw new TypeError(`Unknown extended JSON type "${tagged[TYPE_KEY]}"`);
+    }
+  }
+  return fromObject(value as Record<string, unknown>);
+}
+
+function fromObject(value: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = fromTagged(item);
+  }
+  return result;
+}
@@ -0,0 +1,35 @@
+import { KeyValueStoreError } from "../errors";
+import type { Serializer } from "../types";
+import { extendedJsonSerializer } from "./extended-json";
+import { msgpackSerializer } from "./msgpack";
+
+/**
+ * Plain JSON, the default. Values JSON cannot represent (`Date`, `Map`, ...)
+ * are converted the way `JSON.stringify` converts them.
+ */
+export const jsonSerializer: Serializer = {
+  name: "json",
+  format: "text",
+  // `undefined` has no JSON form; store it as null like older versions did
+  serialize: (value) => JSON.stringify(value) ?? "null",
+  deserialize: (data) => JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data)),
+};
+
+export { extendedJsonSerializer, msgpackSerializer };
+
+const BUILT_IN_SERIALIZERS: ReadonlyMap<string, Serializer> = new Map(
+  [jsonSerializer, extendedJsonSerializer, msgpackSerializer].map((serializer) => [serializer.name, serializer])
+);
+
+/**
+ * Find the serializer a value was stored with: `preferred` if the name
+ * matches, otherwise a built-in one.
+ */
+export function resolveSerializer(name: string, preferred: Serializer): Serializer {
+  if (name === preferred.name) return preferred;
+  const serializer = BUILT_IN_SERIALIZERS.get(name);
+  if (!serializer) {
+    throw new KeyValueStoreError(`Value was stored with the unknown serializer "${name}"`);
+  }
+  return serializer;
+}
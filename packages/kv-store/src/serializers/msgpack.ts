@@ -0,0 +1,360 @@
+import type { Serializer } from "../types";
+
+/**
+ * Extension types used for values MessagePack has no native format for.
+ * -1 is the standard timestamp type.
+ */
+const EXT_TIMESTAMP = -1;
+const EXT_BIGINT = 1;
+const EXT_MAP = 2;
+const EXT_SET = 3;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * A compact binary serializer following the MessagePack format. Plain objects
+ * and arrays map to MessagePack maps and arrays, `Uint8Array` to bin, and
+ * `Date` to the standard timestamp extension. `BigInt`, `Map` and `Set` use
+ * application extension types 1, 2 and 3. `undefined` is stored as nil.
+ */
+export const msgpackSerializer: Serializer = {
+  name: "msgpack",
+  format: "binary",
+  serialize: (value) => {
+    const writer = new Writer();
+    writer.write(value);
+    return writer.finish();
+  },
+  deserialize: (data) => {
+    const reader = new Reader(typeof data === "string" ? textEncoder.encode(data) : data);
+    const value = reader.read();
+    if (!reader.done) {
+      throw new TypeError("Unexpected data after the MessagePack value");
+    }
+    return value;
+  },
+};
+
+class Writer {
+  private bytes = new Uint8Array(64);
+  private view = new DataView(this.bytes.buffer);
+  private pos = 0;
+
+  public finish(): Uint8Array {
+    return this.bytes.slice(0, this.pos);
+  }
+
+  public write(value: unknown): void {
+    switch (typeof value) {
+      case "undefined":
+        return this.u8(0xc0);
+      case "boolean":
+        return this.u8(value ? 0xc3 : 0xc2);
+      case "number":
+        return this.number(value);
+      case "bigint":
+        return this.ext(EXT_BIGINT, textEncoder.encode(value.toString()));
+      case "string":
+        return this.string(value);
+      case "function":
+      case "symbol":
+        throw new TypeError(`Cannot serialize a ${typeof value}`);
+    }
+    if (value === null) return this.u8(0xc0);
+
+    if (value instanceof Uint8Array) return this.binary(value);
+    if (value instanceof Date) return this.timestamp(value);
+    if (value instanceof Map) return this.ext(EXT_MAP, encodeNested((nested) => nested.map(Array.from(value))));
+    if (value instanceof Set) return this.ext(EXT_SET, encodeNested((nested) => nested.array(Array.from(value))));
+    if (Array.isArray(value)) return this.array(value);
+
+    // Like JSON, drop properties that are undefined
+    const entries = Object.entries(value as object).filter(([, item]) => item !== undefined);
+    this.map(entries);
+  }
+
+  public array(items: unknown[]): void {
+    this.header(items.length, 0x90, 0xdc, 0xdd);
+    for (const item of items) this.write(item);
+  }
+
+  public map(entries: [unknown, unknown][]): void {
+    this.header(entries.length, 0x80, 0xde, 0xdf);
+    for (const [key, item] of entries) {
+      this.write(key);
+      this.write(item);
+    }
+  }
+
+  private number(value: number): void {
+    if (!Number.isSafeInteger(value) || Object.is(value, -0)) {
+      this.u8(0xcb);
+      this.ensure(8);
+      this.view.setFloat64(this.pos, value);
+      this.pos += 8;
+    } else if (value >= 0) {
+      if (value < 0x80) this.u8(value);
+      else if (value <= 0xff) { this.u8(0xcc); this.u8(value); }
+      else if (value <= 0xffff) { this.u8(0xcd); this.u16(value); }
+      else if (value <= 0xffffffff) { this.u8(0xce); this.u32(value); }
+      else { this.u8(0xcf); this.ensure(8); this.view.setBigUint64(this.pos, BigInt(value)); this.pos += 8; }
+    } else {
+      if (value >= -32) this.u8(0x100 + value);
+      else if (value >= -0x80) { this.u8(0xd0); this.ensure(1); this.view.setInt8(this.pos++, value); }
+      else if (value >= -0x8000) { this.u8(0xd1); this.ensure(2); this.view.setInt16(this.pos, value); this.pos += 2; }
+      else if (value >= -0x80000000) { this.u8(0xd2); this.ensure(4); this.view.setInt32(this.pos, value); this.pos += 4; }
+      else { this.u8(0xd3); this.ensure(8); this.view.setBigInt64(this.pos, BigInt(value)); this.pos += 8; }
+    }
+  }
+
+  private string(value: string): void {
+    const bytes = textEncoder.encode(value);
+    if (bytes.length < 32) this.u8(0xa0 | bytes.length);
+    else if (bytes.length <= 0xff) { this.u8(0xd9); this.u8(bytes.length); }
+    else if (bytes.length <= 0xffff) { this.u8(0xda); this.u16(bytes.length); }
+    else { this.u8(0xdb); this.u32(bytes.length); }
+    this.raw(bytes);
+  }
+
+  private binary(bytes: Uint8Array): void {
+    if (bytes.length <= 0xff) { this.u8(0xc4); this.u8(bytes.length); }
+    else if (bytes.length <= 0xffff) { this.u8(0xc5); this.u16(bytes.length); }
+    else { this.u8(0xc6); this.u32(bytes.length); }
+    this.raw(bytes);
+  }
+
+  /**
+   * Timestamp 96: nanoseconds (uint32) and seconds (int64), which covers every valid `Date`.
+   */
+  private timestamp(date: Date): void {
+    const ms = date.getTime();
+    if (Number.isNaN(ms)) {
+      throw new TypeError("Cannot serialize an invalid Date");
+    }
+    const seconds = Math.floor(ms / 1000);
+    const payload = new DataView(new ArrayBuffer(12));
+    payload.setUint32(0, (ms - seconds * 1000) * 1e6);
+    payload.setBigInt64(4, BigInt(seconds));
+    this.ext(EXT_TIMESTAMP, new Uint8Array(payload.buffer));
+  }
+
+  private ext(type: number, payload: Uint8Array): void {
+    if (payload.length <= 0xff) { this.u8(0xc7); this.u8(payload.length); }
+    else if (payload.length <= 0xffff) { this.u8(0xc8); this.u16(payload.length); }
+    else { this.u8(0xc9); this.u32(payload.length); }
+    this.u8(type & 0xff);
+    this.raw(payload);
+  }
+
+  private header(length: number, fix: number, format16: number, format32: number): void {
+    if (length < 16) this.u8(fix | length);
+    else if (length <= 0xffff) { this.u8(format16); this.u16(length); }
+    else { this.u8(format32); this.u32(length); }
+  }
+
+  private u8(value: number): void {
+    this.ensure(1);
+    this.bytes[this.pos++] = value;
+  }
+
+  private u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.pos, value);
+    this.pos += 2;
+  }
+
+  private u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.pos, value);
+    this.pos += 4;
+  }
+
+  private raw(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.bytes.set(bytes, this.pos);
+    this.pos += bytes.length;
+  }
+
+  private ensure(size: number): void {
+    if (this.pos + size <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.pos + size));
+    grown.set(this.bytes.subarray(0, this.pos));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+function encodeNested(write: (writer: Writer) => void): Uint8Array {
+  const writer = new Writer();
+  write(writer);
+  return writer.finish();
+}
+
+class Reader {
+  private view: DataView;
+  private pos = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  public get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  public read(): unknown {
+    const type = this.u8();
+
+    if (type < 0x80) return type;
+    if (type >= 0xe0) return type - 0x100;
+    if (type >= 0x80 && type <= 0x8f) return this.object(type & 0x0f);
+    if (type >= 0x90 && type <= 0x9f) return this.array(type & 0x0f);
+    if (type >= 0xa0 && type <= 0xbf) return this.string(type & 0x1f);
+
+    switch (type) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return this.take(this.u8()).slice();
+      case 0xc5: return this.take(this.u16()).slice();
+      case 0xc6: return this.take(this.u32()).slice();
+      case 0xc7: return this.ext(this.u8());
+      case 0xc8: return this.ext(this.u16());
+      case 0xc9: return this.ext(this.u32());
+      case 0xca: return this.number(4, () => this.view.getFloat32(this.pos));
+      case 0xcb: return this.number(8, () => this.view.getFloat64(this.pos));
+      case 0xcc: return this.u8();
+      case 0xcd: return this.u16();
+      case 0xce: return this.u32();
+      case 0xcf: return this.number(8, () => Number(this.view.getBigUint64(this.pos)));
+      case 0xd0: return this.number(1, () => this.view.getInt8(this.pos));
+      case 0xd1: return this.number(2, () => this.view.getInt16(this.pos));
+      case 0xd2: return this.number(4, () => this.view.getInt32(this.pos));
+      case 0xd3: return this.number(8, () => Number(this.view.getBigInt64(this.pos)));
+      case 0xd4: return this.ext(1);
+      case 0xd5: return this.ext(2);
+      case 0xd6: return this.ext(4);
+      case 0xd7: return this.ext(8);
+      case 0xd8: return this.ext(16);
+      case 0xd9: return this.string(this.u8());
+      case 0xda: return this.string(this.u16());
+      case 0xdb: return this.string(this.u32());
+      case 0xdc: return this.array(this.u16());
+      case 0xdd: return this.array(this.u32());
+      case 0xde: return this.object(this.u16());
+      case 0xdf: return this.object(this.u32());
+      default:
+        throw new TypeError(`Invalid MessagePack type 0x${type.toString(16)}`);
+    }
+  }
+
+  public array(length: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) items.push(this.read());
+    return items;
+  }
+
+  private object(length: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = this.read();
+      result[String(key)] = this.read();
+    }
+    return result;
+  }
+
+  private entries(length: number): [unknown, unknown][] {
+    const entries: [unknown, unknown][] = [];
+    for (let i = 0; i < length; i++) entries.push([this.read(), this.read()]);
+    return entries;
+  }
+
+  private string(length: number): string {
+    return textDecoder.decode(this.take(length));
+  }
+
+  private ext(length: number): unknown {
+    const type = this.view.getInt8(this.pos++);
+    const payload = this.take(length);
+    const nested = new Reader(payload);
+
+    switch (type) {
+      case EXT_TIMESTAMP:
+        return readTimestamp(payload);
+      case EXT_BIGINT:
+        return BigInt(textDecoder.decode(payload));
+      case EXT_MAP:
+        return new Map(nested.mapEntries());
+      case EXT_SET:
+        return new Set(nested.read() as unknown[]);
+      default:
+        throw new TypeError(`Unknown MessagePack extension type ${type}`);
+    }
+  }
+
+  /**
+   * Read a map header and its entries, keeping non-string keys.
+   */
+  public mapEntries(): [unknown, unknown][] {
+    const type = this.u8();
+    if (type >= 0x80 && type <= 0x8f) return this.entries(type & 0x0f);
+    if (type === 0xde) return this.entries(this.u16());
+    if (type === 0xdf) return this.entries(this.u32());
+    throw new TypeError("Expected a MessagePack map");
+  }
+
+  private number(size: number, read: () => number): number {
+    this.check(size);
+    const value = read();
+    this.pos += size;
+    return value;
+  }
+
+  private u8(): number {
+    this.check(1);
+    return this.bytes[this.pos++];
+  }
+
+  private u16(): number {
+    return this.number(2, () => this.view.getUint16(this.pos));
+  }
+
+  private u32(): number {
+    return this.number(4, () => this.view.getUint32(this.pos));
+  }
+
+  private take(length: number): Uint8Array {
+    this.check(length);
+    const bytes = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  private check(size: number): void {
+    if (this.pos + size > this.bytes.length) {
+      throw new TypeError("Truncated MessagePack data");
+    }
+  }
+}
+
+/**
+ * Decode the 32-, 64- and 96-bit variants of the timestamp extension.
+ */
+function readTimestamp(payload: Uint8Array): Date {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  switch (payload.length) {
+    case 4:
+      return new Date(view.getUint32(0) * 1000);
+    case 8: {
+      const high = view.getUint32(0);
+      const nanoseconds = high >>> 2;
+      const seconds = (high & 0x3) * 2 ** 32 + view.getUint32(4);
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    case 12:
+      return new Date(Number(view.getBigInt64(4)) * 1000 + view.getUint32(0) / 1e6);
+    default:
+      throw new TypeError("Invalid MessagePack timestamp");
+  }
+}
@@ -0,0 +1,95 @@
+import type { KeyValueTransaction, SetOptions, ValueValidator } from "./types";
+
+/**
+ * A write recorded by a transaction but not yet applied to the store, with the
+ * key's committed revision when the transaction first wrote it.
+ */
+export type StagedWrite =
+  | { type: "set"; value: unknown; expiresAt?: number; baseRevision: number }
+  | { type: "delete"; baseRevision: number };
+
+/**
+ * The parts of the store a transaction needs: reading committed values and
+ * revisions, validating values the same way `set()` does and running
+ * `beforeDelete` hooks.
+ */
+export type TransactionSource = {
+  read(key: string): { found: boolean; value: unknown };
+  revision(key: string): number;
+  prepare<T>(key: string, value: T, options?: SetOptions<T>): { value: T; expiresAt?: number };
+  beforeDelete(key: string, oldValue: unknown): void;
+};
+
+/**
+ * Collects writes in memory until the store commits or discards them.
+ */
+export class StagedTransaction implements KeyValueTransaction {
+  public readonly writes: Map<string, StagedWrite> = new Map();
+  private active = true;
+
+  constructor(private source: TransactionSource) {}
+
+  public get<T = unknown>(
+    key: string,
+    options?: { validator?: ValueValidator<T> }
+  ): T | undefined {
+    const { found, value } = this.read(key);
+    if (!found || value === undefined) return undefined;
+    return options?.validator ? options.validator(value) : (value as T);
+  }
+
+  public has(key: string): boolean {
+    return this.read(key).found;
+  }
+
+  public set<T = unknown>(key: string, value: T, options?: SetOptions<T>): T {
+    this.ensureActive();
+    const prepared = this.source.prepare(key, value, options);
+    this.writes.set(key, {
+      type: "set",
+      value: prepared.value,
+      expiresAt: prepared.expiresAt,
+      baseRevision: this.baseRevision(key),
+    });
+    return prepared.value;
+  }
+
+  public delete(key: string): void {
+    this.ensureActive();
+    const { found, value } = this.read(key);
+    if (found) {
+      this.source.beforeDelete(key, value);
+    }
+    this.writes.set(key, { type: "delete", baseRevision: this.baseRevision(key) });
+  }
+
+  /**
+   * Mark the transaction as finished; any further writes will throw.
+   */
+  public close(): void {
+    this.active = false;
+  }
+
+  private read(key: string): { found: boolean; value: unknown } {
+    if (typeof key !== "string") {
+      throw new Error("Key must be a string");
+    }
+    const staged = this.writes.get(key);
+    if (staged) {
+      return staged.type === "set"
+        ? { found: true, value: staged.value }
+        : { found: false, value: undefined };
+    }
+    return this.source.read(key);
+  }
+
+  private baseRevision(key: string): number {
+    return this.writes.get(key)?.baseRevision ?? this.source.revision(key);
+  }
+
+  private ensureActive(): void {
+    if (!this.active) {
+      throw new Error("Transaction is no longer active");
+    }
+  }
+}
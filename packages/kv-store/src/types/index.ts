@@ -5,32 +5,376 @@
  */
 export type ValueValidator<T> = (input: unknown) => T;
 
+/**
+ * Options accepted by `KeyValueStore.set()`.
+ */
+export type SetOptions<T> = {
+  validator?: ValueValidator<T>;
+  /**
+   * Expire the entry this many milliseconds from now.
+   */
+  ttlMs?: number;
+  /**
+   * Expire the entry at this absolute timestamp (ms since epoch).
+   * Takes precedence over `ttlMs`.
+   */
+  expiresAt?: number;
+};
+
+/**
+ * Options accepted by `KeyValueStore.deleteAsync()`.
+ */
+export type DeleteOptions = {
+  /**
+   * Only delete the key if it is still at this revision (0 if it must not
+   * exist); otherwise throw a `RevisionConflictError`.
+   */
+  expectedRevision?: number;
+};
+
+/**
+ * Why an entry was removed from the store.
+ */
+export type DeleteReason = "delete" | "expired";
+
+/**
+ * Per-entry metadata that is persisted alongside the value by adapters
+ * that support it.
+ */
+export type EntryMetadata = {
+  /**
+   * Timestamp (ms since epoch) after which the entry is considered expired.
+   */
+  expiresAt?: number;
+  /**
+   * Per-key revision, starting at 1 when the key is created and incremented on every write.
+   */
+  revision?: number;
+  /**
+   * Timestamp (ms since epoch) of the last write to the key.
+   */
+  updatedAt?: number;
+};
+
+/**
+ * A value together with its per-key metadata, as returned by `KeyValueStore.getWithMeta()`.
+ */
+export type EntryWithMeta<T> = {
+  value: T;
+  revision: number;
+  updatedAt: number;
+  expiresAt?: number;
+};
+
+/**
+ * Options accepted by `KeyValueStore.update()`.
+ */
+export type UpdateOptions<T> = SetOptions<T> & {
+  /**
+   * How many times to retry `fn` when the key changes while it runs. Defaults to 5.
+   */
+  maxRetries?: number;
+};
+
+/**
+ * A single entry passed to `KeyValueAdapter.setMany()`.
+ */
+export type AdapterEntry = {
+  key: string;
+  value: unknown;
+  meta?: EntryMetadata;
+};
+
+/**
+ * The writes passed to `KeyValueAdapter.writeBatch()`.
+ */
+export type AdapterBatch = {
+  sets: AdapterEntry[];
+  deletes: string[];
+};
+
+/**
+ * Options for listing entries in key order.
+ */
+export type ListOptions = {
+  /**
+   * Only include keys starting with this prefix.
+   */
+  prefix?: string;
+  /**
+   * Only include keys greater than or equal to this key.
+   */
+  start?: string;
+  /**
+   * Only include keys strictly less than this key.
+   */
+  end?: string;
+  /**
+   * Maximum number of entries to return.
+   */
+  limit?: number;
+  /**
+   * Return entries in descending key order.
+   */
+  reverse?: boolean;
+};
+
+/**
+ * What a `beforeSet` hook can return: nothing to keep the value as is,
+ * `{ value }` to replace it, or `false` to veto the write.
+ */
+export type BeforeSetResult = void | undefined | false | { value: unknown };
+
+/**
+ * How after-hooks (`onUpdate`, `onDelete`, `onBackup`, `onMigrate`) are run.
+ * - "fire-and-forget": hooks are started and never awaited (the default).
+ * - "await": `setAsync()`, `deleteAsync()`, `transaction()`, `createBackup()` and
+ *   `init()` wait for hooks to finish and reject if one fails (unless `onHookError` is set).
+ */
+export type HookMode = "fire-and-forget" | "await";
+
+/**
+ * Names of the hooks in `KeyValueStoreHooks`.
+ */
+export type HookName = "onUpdate" | "onDelete" | "onBackup" | "onMigrate" | "beforeSet" | "beforeDelete";
+
+/**
+ * Passed to `onHookError` along with the error.
+ */
+export type HookErrorContext = {
+  hook: HookName;
+  key?: string;
+};
+
 /**
  * Configuration for hooks that can be triggered on store operations.
  */
 export type KeyValueStoreHooks = {
+  /**
+   * Called before an entry is set. Return `{ value }` to transform the value,
+   * `false` (or throw) to veto the write. Async hooks are only supported by `setAsync()`.
+   */
+  beforeSet?: (key: string, value: unknown, oldValue: unknown) => BeforeSetResult | Promise<BeforeSetResult>;
+
+  /**
+   * Called before an existing entry is deleted. Return `false` (or throw) to veto
+   * the delete. Async hooks are only supported by `deleteAsync()`. Not called for expirations.
+   */
+  beforeDelete?: (key: string, oldValue: unknown) => void | boolean | Promise<void | boolean>;
+
   /**
    * Called when an entry is updated or created in the store (in memory).
+   * `oldValue` is undefined when the key was just created.
    */
-  onUpdate?: <T>(key: string, newValue: T) => void | Promise<void>;
+  onUpdate?: <T>(key: string, newValue: T, oldValue: T | undefined) => void | Promise<void>;
 
   /**
-   * Called when an entry is deleted from the store (in memory).
+   * Called when an entry is deleted from the store (in memory), either
+   * explicitly or because its TTL ran out.
    */
-  onDelete?: (key: string) => void | Promise<void>;
+  onDelete?: (key: string, reason: DeleteReason) => void | Promise<void>;
 
   /**
    * Called whenever a backup is created.
    */
   onBackup?: (timestamp: number, version: number) => void | Promise<void>;
+
+  /**
+   * Called after `init()` applied migrations, with the schema versions before
+   * and after and the keys whose values changed.
+   */
+  onMigrate?: (fromVersion: number, toVersion: number, migratedKeys: string[]) => void | Promise<void>;
+};
+
+/**
+ * One step of a schema migration. `up` is called for every entry and returns
+ * the upgraded value, or `undefined` to leave the entry unchanged.
+ */
+export type Migration = {
+  /**
+   * Schema version this step upgrades to. Versions must be positive integers
+   * in ascending order.
+   */
+  version: number;
+  up: (key: string, value: unknown) => unknown | Promise<unknown>;
+};
+
+/**
+ * Hooks subscribed on a collection. Keys are relative to the collection.
+ */
+export type CollectionHooks<T> = {
+  onUpdate?: (key: string, newValue: T) => void | Promise<void>;
+  onDelete?: (key: string, reason: DeleteReason) => void | Promise<void>;
+};
+
+/**
+ * Options for `KeyValueStore.collection()`.
+ */
+export type CollectionOptions<T> = {
+  /**
+   * Applied to every value written to or read from the collection.
+   */
+  validator?: ValueValidator<T>;
+  /**
+   * Placed between the collection name and the key. Defaults to ":".
+   */
+  separator?: string;
+};
+
+/**
+ * The kind of change reported to watchers.
+ */
+export type ChangeType = "set" | "delete" | "expire";
+
+/**
+ * A change to a single key, as delivered by `KeyValueStore.watch()`.
+ */
+export type ChangeEvent = {
+  type: ChangeType;
+  key: string;
+  oldValue: unknown;
+  newValue: unknown;
+  /**
+   * The store version after the change (-1 if versioning is disabled).
+   */
+  version: number;
+};
+
+/**
+ * What to watch: a single key, or every key starting with a prefix.
+ */
+export type WatchTarget = string | { prefix: string };
+
+/**
+ * Options for `KeyValueStore.watch()`.
+ */
+export type WatchOptions = {
+  /**
+   * Called synchronously for every matching change, in addition to the async iterator.
+   */
+  listener?: (event: ChangeEvent) => void | Promise<void>;
+  /**
+   * How many unconsumed events to buffer for the async iterator before the
+   * oldest are dropped. Defaults to 1000.
+   */
+  maxBufferedEvents?: number;
+};
+
+/**
+ * Describes a backup made by an adapter.
+ */
+export type BackupInfo = {
+  id: string;
+  path: string;
+  createdAt: number;
+  size: number;
+  /**
+   * sha256 of the backup contents, recorded when the backup was made.
+   * Missing for backups made before checksums were recorded.
+   */
+  checksum?: string;
 };
 
 /**
  * Represents an optional backup strategy. If an adapter supports backups,
- * this method can be implemented to do timestamped backups.
+ * `backup()` can be implemented to do timestamped backups; the other methods
+ * let the store list, verify, restore and prune them.
  */
 export type SupportsBackup = {
-  backup(): Promise<void>;
+  backup(options?: BackupOptions): Promise<BackupInfo | void>;
+  listBackups?(): Promise<BackupInfo[]>;
+  verifyBackup?(id: string): Promise<boolean>;
+  /**
+   * Replace the adapter's contents with the backup and reload them.
+   */
+  restoreBackup?(id: string): Promise<void>;
+  deleteBackup?(id: string): Promise<void>;
+};
+
+export type BackupOptions = {
+  /**
+   * Write the backup to this path instead of the adapter's managed
+   * `<path>.<id>.backup` files. Such backups are not listed, verified against
+   * the manifest or pruned. The path must not exist yet.
+   */
+  path?: string;
+};
+
+/**
+ * Which backups to keep after each `createBackup()`. Backups matching either
+ * rule are deleted; the newest backup is always kept.
+ */
+export type BackupRetention = {
+  /**
+   * Keep at most this many backups.
+   */
+  keepLast?: number;
+  /**
+   * Delete backups older than this.
+   */
+  maxAgeMs?: number;
+};
+
+export type RestoreBackupOptions = {
+  /**
+   * Check the backup against its recorded checksum first. Defaults to true;
+   * set to false to restore backups made without a checksum.
+   */
+  verify?: boolean;
+};
+
+/**
+ * Converts values to and from the form an adapter stores. The built-in
+ * `jsonSerializer`, `extendedJsonSerializer` and `msgpackSerializer` can be
+ * used as is, or you can supply your own.
+ */
+export type Serializer = {
+  /**
+   * Stored with every value, so values written with a different serializer can
+   * still be read. Must not be "json", "ejson" or "msgpack" for custom serializers.
+   */
+  name: string;
+  /**
+   * Whether `serialize()` returns a string ("text") or bytes ("binary").
+   */
+  format: "text" | "binary";
+  /**
+   * Throws if the value cannot be represented.
+   */
+  serialize(value: unknown): string | Uint8Array;
+  deserialize(data: string | Uint8Array): unknown;
+};
+
+export type CompressionAlgorithm = "gzip" | "deflate";
+
+/**
+ * Compression of large values by an adapter. Values whose serialized form is
+ * larger than `thresholdBytes` are compressed; smaller ones are stored as is.
+ */
+export type CompressionOptions = {
+  algorithm?: CompressionAlgorithm; // default "gzip"
+  thresholdBytes?: number; // default 1024
+};
+
+/**
+ * One entry of an adapter's change feed: a write made through another adapter
+ * instance (typically another process) sharing the same storage.
+ */
+export type ChangeFeedEntry = {
+  seq: number;
+  key: string;
+  op: "set" | "delete";
+};
+
+/**
+ * The result of `readChanges()`. `truncated` is true when changes after the
+ * requested sequence number are no longer available (pruned, or the storage was
+ * restored from a backup); the reader should then reload everything.
+ */
+export type ChangeFeedBatch = {
+  changes: ChangeFeedEntry[];
+  lastSeq: number;
+  truncated: boolean;
 };
 
 /**
@@ -38,19 +382,76 @@ export type SupportsBackup = {
  * data to some external medium (DB, file, etc.).
  */
 export type KeyValueAdapter = {
+  /**
+   * The serializer the adapter stores values with, if it supports them. The
+   * store uses it to check values on `set()`.
+   */
+  readonly serializer?: Serializer;
   init(): Promise<void>;
   /**
    * Retrieve a value by key. If it doesn't exist, return undefined.
    */
   get(key: string): Promise<unknown | undefined>;
   /**
-   * Store a value under the specified key.
+   * Store a value under the specified key. Adapters that persist metadata
+   * should store `meta` with the value and clear any previous metadata
+   * when it is omitted.
    */
-  set(key: string, value: unknown): Promise<void>;
+  set(key: string, value: unknown, meta?: EntryMetadata): Promise<void>;
   /**
    * Delete a value associated with the specified key.
    */
   delete(key: string): Promise<void>;
+  /**
+   * Optionally store several entries at once. Implementations should apply
+   * the whole batch atomically (all entries or none).
+   */
+  setMany?(entries: AdapterEntry[]): Promise<void>;
+  /**
+   * Optionally delete several keys at once. Implementations should apply
+   * the whole batch atomically.
+   */
+  deleteMany?(keys: string[]): Promise<void>;
+  /**
+   * Optionally store and delete entries in one atomic operation (all writes or
+   * none). Used by `KeyValueStore.transaction()` and `sync()`.
+   */
+  writeBatch?(batch: AdapterBatch): Promise<void>;
+  /**
+   * Optionally return every (non-expired) key/value pair. Used by
+   * `KeyValueStore.init()` to load the adapter's contents into memory.
+   */
+  all?(): Promise<Record<string, unknown>>;
+  /**
+   * Optionally return the (non-expired) entries matching `options`, sorted by key.
+   * Adapters backed by an index should serve prefix and range scans from it
+   * instead of loading everything.
+   */
+  list?(options?: ListOptions): Promise<Array<[string, unknown]>>;
+  /**
+   * Optionally return the metadata of every entry that has any, so that
+   * expirations and revisions survive a restart.
+   */
+  allMetadata?(): Promise<Record<string, EntryMetadata>>;
+  /**
+   * Optionally return the metadata of a single entry. Used in lazy mode to
+   * keep revisions and expirations of entries loaded on demand.
+   */
+  getMetadata?(key: string): Promise<EntryMetadata | undefined>;
+  /**
+   * Optionally return the sequence number of the newest change in the change feed.
+   */
+  latestChangeSeq?(): Promise<number>;
+  /**
+   * Optionally return the changes other adapter instances made after `afterSeq`.
+   * Used by `KeyValueStore` with the `changeFeed` option to pick up writes from other processes.
+   */
+  readChanges?(afterSeq: number): Promise<ChangeFeedBatch>;
+  /**
+   * Optionally release resources held by the adapter (locks, handles).
+   * Called by `KeyValueStore.close()`.
+   */
+  close?(): Promise<void>;
 };
 
 /**
@@ -58,20 +459,195 @@ export type KeyValueAdapter = {
  */
 export type KeyValueAdapterWithBackup = KeyValueAdapter & Partial<SupportsBackup>;
 
+/**
+ * The name of a method an adapter may implement.
+ */
+export type AdapterMethodName = Exclude<keyof KeyValueAdapterWithBackup, "serializer">;
+
+/**
+ * Wraps an adapter. Receives the next adapter in the chain and returns the
+ * methods it overrides; methods it leaves out are passed straight to `next`.
+ * See `composeAdapter()`.
+ */
+export type AdapterMiddleware = (next: KeyValueAdapterWithBackup) => Partial<KeyValueAdapterWithBackup>;
+
+/**
+ * The handle passed to the callback of `KeyValueStore.transaction()`.
+ * Reads see the transaction's own uncommitted writes.
+ */
+export type KeyValueTransaction = {
+  get<T = unknown>(key: string, options?: { validator?: ValueValidator<T> }): T | undefined;
+  has(key: string): boolean;
+  set<T = unknown>(key: string, value: T, options?: SetOptions<T>): T;
+  delete(key: string): void;
+};
+
+/**
+ * Summary of a single `sync()` call.
+ */
+export type SyncResult = {
+  /**
+   * Keys that were written to the adapter during this sync.
+   */
+  written: string[];
+  /**
+   * Keys that were deleted from the adapter during this sync.
+   */
+  deleted: string[];
+  /**
+   * True if the store version was written to the adapter during this sync.
+   */
+  versionWritten: boolean;
+};
+
+/**
+ * How the store holds its data.
+ * - "eager": `init()` loads the whole adapter into memory (the default).
+ * - "lazy": entries are read from the adapter on demand and kept in a bounded
+ *   LRU cache; writes go through to the adapter.
+ */
+export type StoreMode = "eager" | "lazy";
+
+/**
+ * Limits for the lazy mode cache. Least recently used entries are evicted once
+ * either limit is exceeded; without limits nothing is evicted.
+ */
+export type CacheOptions = {
+  /**
+   * Keep at most this many entries.
+   */
+  maxEntries?: number;
+  /**
+   * Keep at most this many bytes, measured as the length of each key plus its JSON-encoded value.
+   */
+  maxBytes?: number;
+};
+
+/**
+ * Counters returned by `KeyValueStore.getCacheStats()`.
+ */
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  /**
+   * Entries currently cached.
+   */
+  entries: number;
+  /**
+   * Approximate size of the cached entries.
+   */
+  bytes: number;
+};
+
+/**
+ * When changes are written to the adapter.
+ * - "manual": only when `sync()`, `flush()` or `dispose()` is called.
+ * - "interval": every `syncIntervalMs` (the default when it is set).
+ * - "write-through": after every mutation; the async write methods resolve
+ *   once the adapter has it (the default in lazy mode).
+ * - "write-behind": shortly after mutations, coalescing bursts of writes.
+ */
+export type PersistenceMode = "manual" | "interval" | "write-through" | "write-behind";
+
+/**
+ * Timing of the "write-behind" persistence mode.
+ */
+export type WriteBehindOptions = {
+  /**
+   * Write once no mutation happened for this long. Defaults to 100.
+   */
+  debounceMs?: number;
+  /**
+   * Write at most this long after the first unwritten mutation, even if
+   * mutations keep coming. Defaults to 1000.
+   */
+  maxDelayMs?: number;
+  /**
+   * Retry a failed write after this long, doubling the delay after each
+   * further failure (up to 30 seconds). Defaults to 1000.
+   */
+  retryDelayMs?: number;
+};
+
+export type ChangeFeedOptions = {
+  /**
+   * How often the adapter's change feed is read. Defaults to 500.
+   */
+  pollIntervalMs?: number;
+};
+
 /**
  * Configuration for the KeyValueStore class.
  */
 export type KeyValueStoreConfig = {
   adapter?: KeyValueAdapterWithBackup;
   hooks?: KeyValueStoreHooks;
+  /**
+   * Checks on `set()` that values can be stored. Defaults to the adapter's
+   * serializer, or JSON. Must match the adapter's serializer if both are set.
+   */
+  serializer?: Serializer;
+  /**
+   * Load everything on `init()` ("eager", the default) or read entries on
+   * demand through a bounded cache ("lazy", requires an adapter).
+   */
+  mode?: StoreMode;
+  /**
+   * Cache limits for lazy mode.
+   */
+  cache?: CacheOptions;
+  /**
+   * Whether the async write methods wait for after-hooks. Defaults to "fire-and-forget".
+   */
+  hookMode?: HookMode;
+  /**
+   * Called with any error thrown or rejected by a hook. Without it, errors are
+   * logged, or rethrown from awaited calls in "await" mode.
+   */
+  onHookError?: (error: unknown, context: HookErrorContext) => void;
   /**
    * If provided, the store will periodically call `sync()` to push
-   * all in-memory changes to the adapter.
+   * in-memory changes made since the last successful sync to the adapter.
    */
   syncIntervalMs?: number;
+  /**
+   * When changes are written to the adapter. Defaults to "interval" if
+   * `syncIntervalMs` is set, "write-through" in lazy mode and "manual" otherwise.
+   */
+  persistence?: PersistenceMode;
+  /**
+   * Timing of the "write-behind" persistence mode.
+   */
+  writeBehind?: WriteBehindOptions;
+  /**
+   * Poll the adapter's change feed (e.g. `SqliteAdapter` with `changeFeed`) and
+   * apply writes made by other processes to memory, firing `onUpdate`,
+   * `onDelete` and watchers for them. Requires an adapter with `readChanges()`.
+   */
+  changeFeed?: boolean | ChangeFeedOptions;
   /**
    * You can choose to keep a version counter for the entire store.
    * Each operation that modifies the store increments the version.
    */
   enableVersioning?: boolean;
+  /**
+   * Ordered schema migrations. Steps newer than the schema version stored in
+   * the adapter run once during `init()`.
+   */
+  migrations?: Migration[];
+  /**
+   * How often (in ms) expired entries are swept from memory. The sweeper only
+   * runs while at least one entry has an expiration. Defaults to 1000.
+   */
+  expirationSweepIntervalMs?: number;
+  /**
+   * If provided (and the adapter supports backups), the store will
+   * periodically call `createBackup()`.
+   */
+  backupIntervalMs?: number;
+  /**
+   * Prune old backups after each `createBackup()`.
+   */
+  backupRetention?: BackupRetention;
 }; 
\ No newline at end of file
@@ -0,0 +1,98 @@
+import type { webcrypto } from "node:crypto";
+import { KeyValueStoreError } from "../errors";
+
+const IV_BYTES = 12;
+const KEY_LENGTHS = [16, 24, 32];
+const encoder = new TextEncoder();
+
+/**
+ * AES-GCM encryption with keys derived (via HKDF) from one raw key. Values get
+ * a random IV; names get an IV derived from the name itself, so the same name
+ * always encrypts to the same string and can still be looked up.
+ */
+export class AesGcmCipher {
+  private constructor(
+    private valueKey: CryptoKey,
+    private nameKey: CryptoKey,
+    private nameIvKey: CryptoKey
+  ) {}
+
+  /**
+   * Derive the cipher's keys from a raw AES key of 16, 24 or 32 bytes.
+   */
+  public static async create(rawKey: Uint8Array): Promise<AesGcmCipher> {
+    if (!(rawKey instanceof Uint8Array) || !KEY_LENGTHS.includes(rawKey.byteLength)) {
+      throw new KeyValueStoreError("Encryption keys must be a Uint8Array of 16, 24 or 32 bytes");
+    }
+    const master = await crypto.subtle.importKey("raw", rawKey, "HKDF", false, ["deriveKey"]);
+    const derive = (
+      info: string,
+      algorithm: webcrypto.AesKeyGenParams | webcrypto.HmacKeyGenParams,
+      usages: webcrypto.KeyUsage[]
+    ) =>
+      crypto.subtle.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: encoder.encode(info) },
+        master,
+        algorithm,
+        false,
+        usages
+      );
+    const aes = { name: "AES-GCM", length: rawKey.byteLength * 8 };
+    return new AesGcmCipher(
+      await derive("kv-store values", aes, ["encrypt", "decrypt"]),
+      await derive("kv-store names", aes, ["encrypt", "decrypt"]),
+      await derive("kv-store name iv", { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign"])
+    );
+  }
+
+  /**
+   * Encrypt `plaintext`, authenticating `context` along with it so the result
+   * cannot be moved to another key. Returns base64 of the IV and ciphertext.
+   */
+  public async encrypt(plaintext: Uint8Array, context: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    return seal(this.valueKey, iv, plaintext, encoder.encode(context));
+  }
+
+  /**
+   * Reverse `encrypt()`. Throws if the key or context is wrong or the data was altered.
+   */
+  public async decrypt(data: string, context: string): Promise<Uint8Array> {
+    return open(this.valueKey, data, encoder.encode(context));
+  }
+
+  public async encryptName(name: string): Promise<string> {
+    const plaintext = encoder.encode(name);
+    const mac = await crypto.subtle.sign("HMAC", this.nameIvKey, plaintext);
+    return seal(this.nameKey, new Uint8Array(mac, 0, IV_BYTES), plaintext);
+  }
+
+  public async decryptName(data: string): Promise<string> {
+    return new TextDecoder().decode(await open(this.nameKey, data));
+  }
+}
+
+async function seal(
+  key: CryptoKey,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  additionalData?: Uint8Array
+): Promise<string> {
+  const params: webcrypto.AesGcmParams = additionalData
+    ? { name: "AES-GCM", iv, additionalData }
+    : { name: "AES-GCM", iv };
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(params, key, plaintext));
+  const result = new Uint8Array(iv.byteLength + ciphertext.byteLength);
+  result.set(iv);
+  result.set(ciphertext, iv.byteLength);
+  return Buffer.from(result).toString("base64url");
+}
+
+async function open(key: CryptoKey, data: string, additionalData?: Uint8Array): Promise<Uint8Array> {
+  const bytes = new Uint8Array(Buffer.from(data, "base64url"));
+  const iv = bytes.subarray(0, IV_BYTES);
+  const params: webcrypto.AesGcmParams = additionalData
+    ? { name: "AES-GCM", iv, additionalData }
+    : { name: "AES-GCM", iv };
+  return new Uint8Array(await crypto.subtle.decrypt(params, key, bytes.subarray(IV_BYTES)));
+}
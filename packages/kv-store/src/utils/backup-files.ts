@@ -0,0 +1,161 @@
+import { readdir, rename, stat, unlink } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { KeyValueStoreError } from "../errors";
+import type { BackupInfo } from "../types";
+
+type ManifestEntry = {
+  createdAt: number;
+  size: number;
+  checksum: string;
+};
+
+const BACKUP_ID_PATTERN = /^\d+(-\d+)?$/;
+
+/**
+ * Manages `<path>.<id>.backup` copies of a store file, plus a
+ * `<path>.backups.json` manifest holding each backup's size and sha256 checksum.
+ * Backup ids are the creation timestamp, with a counter suffix if several
+ * backups are made within the same millisecond.
+ */
+export class FileBackups {
+  private manifestPath: string;
+  private manifestQueue: Promise<void> = Promise.resolve();
+
+  constructor(private sourcePath: string) {
+    this.manifestPath = `${sourcePath}.backups.json`;
+  }
+
+  /**
+   * Create a backup. By default the source file is copied; pass `write` to
+   * produce the backup file another way (e.g. an SQLite `VACUUM INTO`).
+   */
+  public async create(write?: (backupPath: string) => Promise<void>): Promise<BackupInfo> {
+    const createdAt = Date.now();
+    let id = String(createdAt);
+    for (let n = 1; await Bun.file(this.pathFor(id)).exists(); n++) {
+      id = `${createdAt}-${n}`;
+    }
+
+    const info = await this.writeBackup(id, this.pathFor(id), createdAt, write);
+    await this.updateManifest((manifest) => {
+      manifest[id] = { createdAt, size: info.size, checksum: info.checksum! };
+    });
+    return info;
+  }
+
+  /**
+   * Create a backup at a caller-supplied path. It is not recorded in the
+   * manifest or returned by `list()`; its `id` is the path.
+   */
+  public async createAt(path: string, write?: (backupPath: string) => Promise<void>): Promise<BackupInfo> {
+    if (await Bun.file(path).exists()) {
+      throw new KeyValueStoreError(`Backup target "${path}" already exists`);
+    }
+    return this.writeBackup(path, path, Date.now(), write);
+  }
+
+  /**
+   * List the backups on disk, newest first. Backups made before checksums were
+   * recorded are included without a `checksum`.
+   */
+  public async list(): Promise<BackupInfo[]> {
+    const dir = dirname(this.sourcePath);
+    const prefix = `${basename(this.sourcePath)}.`;
+    const manifest = await this.readManifest();
+    const backups: BackupInfo[] = [];
+
+    for (const name of await readdir(dir).catch(() => [] as string[])) {
+      if (!name.startsWith(prefix) || !name.endsWith(".backup")) continue;
+      const id = name.slice(prefix.length, -".backup".length);
+      if (!BACKUP_ID_PATTERN.test(id)) continue;
+
+      const path = join(dir, name);
+      const entry = manifest[id];
+      const size = entry?.size ?? (await stat(path)).size;
+      backups.push({
+        id,
+        path,
+        createdAt: entry?.createdAt ?? Number.parseInt(id, 10),
+        size,
+        checksum: entry?.checksum,
+      });
+    }
+
+    return backups.sort((a, b) => b.createdAt - a.createdAt || b.id.localeCompare(a.id));
+  }
+
+  /**
+   * Check a backup against the checksum recorded when it was made. Returns
+   * false if the file is missing, changed, or has no recorded checksum.
+   */
+  public async verify(id: string): Promise<boolean> {
+    const entry = (await this.readManifest())[id];
+    const file = Bun.file(this.pathFor(id));
+    if (!entry || !(await file.exists())) return false;
+
+    const bytes = await file.arrayBuffer();
+    return bytes.byteLength === entry.size && sha256(bytes) === entry.checksum;
+  }
+
+  /**
+   * Delete a backup file and its manifest entry.
+   */
+  public async remove(id: string): Promise<void> {
+    await unlink(this.pathFor(id)).catch(() => {});
+    await this.updateManifest((manifest) => {
+      delete manifest[id];
+    });
+  }
+
+  /**
+   * Path of the backup with the given id. Throws if the id is malformed.
+   */
+  public pathFor(id: string): string {
+    if (!BACKUP_ID_PATTERN.test(id)) {
+      throw new KeyValueStoreError(`Invalid backup id "${id}"`);
+    }
+    return `${this.sourcePath}.${id}.backup`;
+  }
+
+  private async writeBackup(
+    id: string,
+    path: string,
+    createdAt: number,
+    write?: (backupPath: string) => Promise<void>
+  ): Promise<BackupInfo> {
+    if (write) {
+      await write(path);
+    } else {
+      await Bun.write(path, await Bun.file(this.sourcePath).arrayBuffer());
+    }
+
+    const bytes = await Bun.file(path).arrayBuffer();
+    return { id, path, createdAt, size: bytes.byteLength, checksum: sha256(bytes) };
+  }
+
+  private async readManifest(): Promise<Record<string, ManifestEntry>> {
+    try {
+      const data = JSON.parse(await Bun.file(this.manifestPath).text());
+      return typeof data === "object" && data !== null ? data : {};
+    } catch {
+      // A missing or damaged manifest only means checksums are unavailable
+      return {};
+    }
+  }
+
+  private updateManifest(change: (manifest: Record<string, ManifestEntry>) => void): Promise<void> {
+    const result = this.manifestQueue.then(async () => {
+      const manifest = await this.readManifest();
+      change(manifest);
+      const tempPath = `${this.manifestPath}.${process.pid}.tmp`;
+      await Bun.write(tempPath, JSON.stringify(manifest, null, 2));
+      await rename(tempPath, this.manifestPath);
+    });
+    this.manifestQueue = result.catch(() => {});
+    return result;
+  }
+}
+
+function sha256(bytes: ArrayBuffer): string {
+  return new Bun.CryptoHasher("sha256").update(bytes).digest("hex");
+}
@@ -0,0 +1,107 @@
+import { link, readFile, unlink, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { StoreLockedError } from "../errors";
+
+/**
+ * Locks held by this process, with the number of holders. Locks are reentrant
+ * within a process, so several adapters in one process can share a file.
+ */
+const heldLocks: Map<string, number> = new Map();
+
+/** Acquisitions in progress, so concurrent callers wait for the same one. */
+const pendingLocks: Map<string, Promise<void>> = new Map();
+
+/**
+ * Acquire the advisory lock `${filePath}.lock`, which contains the owner's pid.
+ * Locks left behind by processes that are no longer running are taken over.
+ * Throws `StoreLockedError` if another live process holds the lock.
+ */
+export async function acquireFileLock(filePath: string): Promise<string> {
+  const lockPath = resolve(`${filePath}.lock`);
+  let pending = pendingLocks.get(lockPath);
+  while (pending !== undefined) {
+    await pending.catch(() => {});
+    pending = pendingLocks.get(lockPath);
+  }
+
+  const holders = heldLocks.get(lockPath);
+  if (holders !== undefined) {
+    heldLocks.set(lockPath, holders + 1);
+    return lockPath;
+  }
+
+  const acquisition = createLockFile(filePath, lockPath).finally(() => pendingLocks.delete(lockPath));
+  pendingLocks.set(lockPath, acquisition);
+  await acquisition;
+  return lockPath;
+}
+
+/**
+ * Create the lock file for this process. The pid is written to a temporary file
+ * first and linked into place, so the lock file never exists without its owner.
+ */
+async function createLockFile(filePath: string, lockPath: string): Promise<void> {
+  const tempPath = `${lockPath}.${process.pid}.tmp`;
+  await writeFile(tempPath, String(process.pid));
+  try {
+    while (true) {
+      try {
+        await link(tempPath, lockPath);
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      }
+
+      const ownerPid = await readLockOwner(lockPath);
+      if (ownerPid === null) continue; // Released in the meantime
+      if (ownerPid !== undefined && ownerPid !== process.pid && isProcessAlive(ownerPid)) {
+        throw new StoreLockedError(filePath, ownerPid);
+      }
+
+      // Stale lock: remove it and try again
+      await unlink(lockPath).catch(() => {});
+    }
+  } finally {
+    await unlink(tempPath).catch(() => {});
+  }
+  heldLocks.set(lockPath, 1);
+}
+
+/**
+ * Release a lock returned by `acquireFileLock()`. The lock file is removed once
+ * the last holder in this process releases it.
+ */
+export async function releaseFileLock(lockPath: string): Promise<void> {
+  const holders = heldLocks.get(lockPath);
+  if (holders === undefined) return;
+
+  if (holders > 1) {
+    heldLocks.set(lockPath, holders - 1);
+    return;
+  }
+  heldLocks.delete(lockPath);
+  await unlink(lockPath).catch(() => {});
+}
+
+/**
+ * Read the pid in a lock file: `null` if the file is gone, `undefined` if it
+ * does not name a process.
+ */
+async function readLockOwner(lockPath: string): Promise<number | null | undefined> {
+  try {
+    const pid = Number.parseInt(await readFile(lockPath, "utf8"), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : undefined;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "ENOENT" ? null : undefined;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
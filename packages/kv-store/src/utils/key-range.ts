@@ -0,0 +1,53 @@
+import type { ListOptions } from "../types";
+
+/**
+ * Return the smallest string that sorts after every string starting with `prefix`,
+ * or undefined if no such bound exists (e.g. the prefix is all U+FFFF characters).
+ * Useful for turning a prefix scan into an indexed range query.
+ */
+export function prefixUpperBound(prefix: string): string | undefined {
+  let end = prefix.length;
+  while (end > 0) {
+    const code = prefix.charCodeAt(end - 1);
+    if (code < 0xffff) {
+      return prefix.slice(0, end - 1) + String.fromCharCode(code + 1);
+    }
+    end--;
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a key falls inside the prefix/start/end bounds of `options`.
+ */
+export function keyInRange(key: string, options: ListOptions = {}): boolean {
+  if (options.prefix !== undefined && !key.startsWith(options.prefix)) return false;
+  if (options.start !== undefined && key < options.start) return false;
+  if (options.end !== undefined && key >= options.end) return false;
+  return true;
+}
+
+/**
+ * Filter entries by the bounds in `options`, sort them by key and apply
+ * `reverse` and `limit`. Shared by the store and adapters that list in memory.
+ */
+export function applyListOptions<V>(
+  entries: Iterable<[string, V]>,
+  options: ListOptions = {}
+): Array<[string, V]> {
+  const result: Array<[string, V]> = [];
+  for (const entry of entries) {
+    if (keyInRange(entry[0], options)) {
+      result.push(entry);
+    }
+  }
+
+  result.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  if (options.reverse) {
+    result.reverse();
+  }
+  if (options.limit !== undefined) {
+    return result.slice(0, Math.max(0, options.limit));
+  }
+  return result;
+}
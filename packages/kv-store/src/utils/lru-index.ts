@@ -0,0 +1,67 @@
+import type { CacheOptions } from "../types";
+
+/**
+ * Tracks the recency and approximate size of cached keys so the least
+ * recently used ones can be evicted once the cache exceeds its limits.
+ * The values themselves live in the store; this only keeps the bookkeeping.
+ */
+export class LruIndex {
+  private sizes: Map<string, number> = new Map(); // in recency order, least recent first
+  private totalBytes = 0;
+
+  constructor(private limits: CacheOptions) {}
+
+  /**
+   * Mark `key` as most recently used, recording its size when given.
+   */
+  public touch(key: string, size?: number): void {
+    const previous = this.sizes.get(key);
+    const nextSize = size ?? previous ?? 0;
+    if (previous !== undefined) {
+      this.sizes.delete(key);
+      this.totalBytes -= previous;
+    }
+    this.sizes.set(key, nextSize);
+    this.totalBytes += nextSize;
+  }
+
+  public delete(key: string): void {
+    const size = this.sizes.get(key);
+    if (size === undefined) return;
+    this.sizes.delete(key);
+    this.totalBytes -= size;
+  }
+
+  public clear(): void {
+    this.sizes.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * The keys to evict, least recently used first, to get back within the limits.
+   * Keys for which `pinned` returns true are skipped.
+   */
+  public overflow(pinned: (key: string) => boolean): string[] {
+    const { maxEntries = Infinity, maxBytes = Infinity } = this.limits;
+    let entries = this.sizes.size;
+    let bytes = this.totalBytes;
+    const evict: string[] = [];
+
+    for (const [key, size] of this.sizes) {
+      if (entries <= maxEntries && bytes <= maxBytes) break;
+      if (pinned(key)) continue;
+      evict.push(key);
+      entries--;
+      bytes -= size;
+    }
+    return evict;
+  }
+
+  public get entries(): number {
+    return this.sizes.size;
+  }
+
+  public get bytes(): number {
+    return this.totalBytes;
+  }
+}
@@ -0,0 +1,177 @@
+import { KeyValueStoreError } from "../errors";
+import { jsonSerializer, resolveSerializer } from "../serializers";
+import type { CompressionAlgorithm, CompressionOptions, EntryMetadata, Serializer } from "../types";
+
+const DEFAULT_COMPRESSION_THRESHOLD_BYTES = 1024;
+const COMPRESSION_ALGORITHMS: readonly CompressionAlgorithm[] = ["gzip", "deflate"];
+
+/**
+ * A value prepared for a JSON document (the `FileAdapter` file, the
+ * `LogFileAdapter` snapshot and log). `encoding` is the serializer's name, and
+ * is left out for plain JSON so such documents match the original format.
+ * Compressed values are base64 strings and carry the `compression` algorithm.
+ */
+export type DocumentValue = { value: unknown; encoding?: string; compression?: CompressionAlgorithm };
+
+/**
+ * Reserved top-level key under which the JSON documents keep per-entry metadata.
+ */
+export const METADATA_KEY = "__meta__";
+
+/**
+ * Throw if `key` is the reserved metadata key, which a JSON document cannot
+ * hold as an entry: its value would be read back as metadata.
+ */
+export function assertDocumentKey(key: string): void {
+  if (key === METADATA_KEY) {
+    throw new KeyValueStoreError(`The key "${METADATA_KEY}" is reserved by the file adapters`);
+  }
+}
+
+/**
+ * Per-entry metadata as kept in a JSON document's `__meta__` section: the
+ * entry's metadata plus how its value is encoded and compressed.
+ */
+export type StoredMetadata = EntryMetadata & { encoding?: string; compression?: CompressionAlgorithm };
+
+/**
+ * The `EntryMetadata` fields of stored metadata, or undefined if none are set.
+ */
+export function entryMetadata(stored: StoredMetadata | undefined): EntryMetadata | undefined {
+  if (!stored) return undefined;
+  const meta: EntryMetadata = {};
+  if (stored.expiresAt !== undefined) meta.expiresAt = stored.expiresAt;
+  if (stored.revision !== undefined) meta.revision = stored.revision;
+  if (stored.updatedAt !== undefined) meta.updatedAt = stored.updatedAt;
+  return Object.keys(meta).length > 0 ? meta : undefined;
+}
+
+/**
+ * A value prepared for the `SqliteAdapter` table: text serializers fill
+ * `text`, binary ones and compressed values `blob`. `encoding` is null for
+ * plain JSON and `compression` null for uncompressed values.
+ */
+export type ColumnValue = {
+  text: string | null;
+  blob: Uint8Array | null;
+  encoding: string | null;
+  compression: CompressionAlgorithm | null;
+};
+
+/**
+ * Encodes values with the adapter's serializer, compressing those above the
+ * threshold, and decodes them with whichever serializer and compression they
+ * were stored with. Values without an encoding are plain JSON.
+ */
+export class ValueCodec {
+  private compression?: Required<CompressionOptions>;
+
+  constructor(public readonly serializer: Serializer, compression?: CompressionOptions) {
+    if (compression) {
+      const { algorithm = "gzip", thresholdBytes = DEFAULT_COMPRESSION_THRESHOLD_BYTES } = compression;
+      if (!COMPRESSION_ALGORITHMS.includes(algorithm)) {
+        throw new KeyValueStoreError(`Invalid compression algorithm "${algorithm}"`);
+      }
+      if (!(thresholdBytes >= 0)) {
+        throw new KeyValueStoreError("compression.thresholdBytes must be a non-negative number");
+      }
+      this.compression = { algorithm, thresholdBytes };
+    }
+  }
+
+  /**
+   * With the JSON serializer and no compression the value is kept as is;
+   * otherwise it is serialized to a string (bytes as base64).
+   */
+  public toDocument(value: unknown): DocumentValue {
+    const isJson = this.serializer.name === jsonSerializer.name;
+    if (isJson && !this.compression) return { value };
+
+    const data = this.serializer.serialize(value);
+    const encoding = isJson ? undefined : this.serializer.name;
+    const compressed = this.compress(data);
+    if (compressed) {
+      return { value: toBase64(compressed), encoding, compression: this.compression!.algorithm };
+    }
+    if (isJson) return { value };
+    return { value: typeof data === "string" ? data : toBase64(data), encoding };
+  }
+
+  public fromDocument(value: unknown, encoding: string | undefined, compression?: CompressionAlgorithm): unknown {
+    if (compression !== undefined) {
+      return this.deserialize(decompress(fromBase64(value as string), compression), encoding ?? jsonSerializer.name);
+    }
+    if (encoding === undefined) return value;
+    const serializer = resolveSerializer(encoding, this.serializer);
+    return serializer.deserialize(serializer.format === "binary" ? fromBase64(value as string) : (value as string));
+  }
+
+  public toColumn(value: unknown): ColumnValue {
+    const data = this.serializer.serialize(value);
+    const encoding = this.serializer.name === jsonSerializer.name ? null : this.serializer.name;
+    const compressed = this.compress(data);
+    if (compressed) {
+      return { text: null, blob: compressed, encoding, compression: this.compression!.algorithm };
+    }
+    return typeof data === "string"
+      ? { text: data, blob: null, encoding, compression: null }
+      : { text: null, blob: data, encoding, compression: null };
+  }
+
+  public fromColumn(
+    text: string | null,
+    blob: Uint8Array | null,
+    encoding: string | null,
+    compression: CompressionAlgorithm | null = null
+  ): unknown {
+    if (compression !== null) {
+      return this.deserialize(decompress(blob!, compression), encoding ?? jsonSerializer.name);
+    }
+    if (encoding === null) {
+      // Rows written before serializers existed may hold non-JSON text
+      try {
+        return JSON.parse(text as string);
+      } catch {
+        return text;
+      }
+    }
+    return resolveSerializer(encoding, this.serializer).deserialize(blob ?? (text as string));
+  }
+
+  /**
+   * The compressed form of `data`, or undefined if it is below the threshold,
+   * compression is off, or compressing would not make it smaller.
+   */
+  private compress(data: string | Uint8Array): Uint8Array | undefined {
+    if (!this.compression) return undefined;
+    const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+    if (bytes.byteLength <= this.compression.thresholdBytes) return undefined;
+
+    const compressed = this.compression.algorithm === "gzip" ? Bun.gzipSync(bytes) : Bun.deflateSync(bytes);
+    return compressed.byteLength < bytes.byteLength ? compressed : undefined;
+  }
+
+  private deserialize(bytes: Uint8Array, encoding: string): unknown {
+    const serializer = resolveSerializer(encoding, this.serializer);
+    return serializer.deserialize(serializer.format === "binary" ? bytes : new TextDecoder().decode(bytes));
+  }
+}
+
+function decompress(bytes: Uint8Array, algorithm: string): Uint8Array {
+  switch (algorithm) {
+    case "gzip":
+      return Bun.gunzipSync(bytes);
+    case "deflate":
+      return Bun.inflateSync(bytes);
+    default:
+      throw new KeyValueStoreError(`Value was stored with the unknown compression "${algorithm}"`);
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64");
+}
+
+function fromBase64(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, "base64"));
+}
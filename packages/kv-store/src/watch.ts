@@ -0,0 +1,88 @@
+import type { ChangeEvent, WatchOptions, WatchTarget } from "./types";
+
+const DEFAULT_MAX_BUFFERED_EVENTS = 1000;
+
+/**
+ * A subscription to changes of a single key or a key prefix. Events can be
+ * consumed with `for await`, through the optional listener, or both.
+ * Call `unsubscribe()` (or break out of the loop) to stop watching.
+ */
+export class ChangeWatcher implements AsyncIterable<ChangeEvent> {
+  private buffer: ChangeEvent[] = [];
+  private waiting: Array<(result: IteratorResult<ChangeEvent>) => void> = [];
+  private closed = false;
+  private maxBuffered: number;
+
+  constructor(
+    private target: WatchTarget,
+    private onClose: (watcher: ChangeWatcher) => void,
+    private options: WatchOptions = {}
+  ) {
+    this.maxBuffered = options.maxBufferedEvents ?? DEFAULT_MAX_BUFFERED_EVENTS;
+  }
+
+  /**
+   * Whether this watcher is interested in changes to `key`.
+   */
+  public matches(key: string): boolean {
+    return typeof this.target === "string"
+      ? key === this.target
+      : key.startsWith(this.target.prefix);
+  }
+
+  /**
+   * Deliver an event to the listener and to pending or future iterations.
+   */
+  public push(event: ChangeEvent): void {
+    if (this.closed) return;
+
+    try {
+      void this.options.listener?.(event);
+    } catch (err) {
+      console.error("watch listener failed:", err);
+    }
+
+    const resolve = this.waiting.shift();
+    if (resolve) {
+      resolve({ value: event, done: false });
+      return;
+    }
+
+    this.buffer.push(event);
+    // Drop the oldest events if nobody is consuming them
+    if (this.buffer.length > this.maxBuffered) {
+      this.buffer.splice(0, this.buffer.length - this.maxBuffered);
+    }
+  }
+
+  /**
+   * Stop receiving events. Pending iterations finish once buffered events are consumed.
+   */
+  public unsubscribe(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose(this);
+    for (const resolve of this.waiting.splice(0)) {
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<ChangeEvent> {
+    return {
+      next: () => {
+        const event = this.buffer.shift();
+        if (event) {
+          return Promise.resolve({ value: event, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => this.waiting.push(resolve));
+      },
+      return: () => {
+        this.unsubscribe();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+}